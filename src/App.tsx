@@ -8,17 +8,28 @@ import { SessionScreen } from './components/SessionScreen'
 import { ReflectionScreen } from './components/ReflectionScreen'
 import { ProgressDashboard } from './components/ProgressDashboard'
 import { SettingsScreen } from './components/SettingsScreen'
+import { ProgramBuilder } from './components/ProgramBuilder'
+import { ApneaTableScreen } from './components/ApneaTableScreen'
+import { PowerBreathingScreen } from './components/PowerBreathingScreen'
+import { ResonanceAssessment } from './components/ResonanceAssessment'
+import { BaselineScreen } from './components/BaselineScreen'
 import { Navigation } from './components/Navigation'
 import { LoadingScreen } from './components/LoadingScreen'
 import { SessionAutoSave } from './components/SessionAutoSave'
+import { SharedExercisePreview } from './components/SharedExercisePreview'
 import { Toaster } from './components/ui/sonner'
-
-interface BreathPattern {
-  inhale: number
-  hold: number
-  exhale: number
-  pause: number
-}
+import { BreathPattern, LegacyPhase, PhaseType, normalizePattern } from './components/BreathPattern'
+import { SessionLog } from './components/SessionLog'
+import { SessionProgram, SessionTarget, StageSummary } from './components/SessionProgram'
+import { AdherenceResult } from './components/Adherence'
+import {
+  SharedExercise,
+  clearShareLink,
+  decodeSharedExercise,
+  getShareLinkPayload,
+  saveSharedExercise
+} from './components/PatternShare'
+import { toast } from 'sonner@2.0.3'
 
 interface Exercise {
   id: string
@@ -27,13 +38,27 @@ interface Exercise {
   description: string
   pattern: BreathPattern
   color: string
+  icon?: string
+}
+
+interface SessionPause {
+  at: number
+  duration: number
 }
 
 interface SessionData {
   duration: number
+  activeTime: number
+  pausedTime: number
+  pauses: SessionPause[]
   cycles: number
   pattern: BreathPattern
   patternName?: string
+  completed: boolean
+  hiddenTime: number
+  log: SessionLog
+  stages?: StageSummary[]
+  adherence?: AdherenceResult
 }
 
 interface SavedSession {
@@ -45,7 +70,8 @@ interface SavedSession {
     cyclesCompleted: number
     totalCycles: number
     timeElapsed: number
-    currentPhase: 'inhale' | 'hold' | 'exhale' | 'pause'
+    currentPhase: PhaseType | LegacyPhase
+    phaseIndex?: number
     phaseTimeRemaining: number
   }
   duration: number
@@ -55,6 +81,11 @@ type AppScreen =
   | 'onboarding'
   | 'home'
   | 'library'
+  | 'programs'
+  | 'tables'
+  | 'power'
+  | 'resonance'
+  | 'baseline'
   | 'custom'
   | 'control'
   | 'session'
@@ -66,11 +97,21 @@ export default function App() {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('onboarding')
   const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null)
   const [customPattern, setCustomPattern] = useState<BreathPattern | null>(null)
+  const [editingExercise, setEditingExercise] = useState<Exercise | null>(null)
+  const [activeProgram, setActiveProgram] = useState<SessionProgram | null>(null)
+  // The name the session was started under, e.g. one typed into the control panel
+  const [sessionName, setSessionName] = useState<string | undefined>()
+  const [sessionTarget, setSessionTarget] = useState<SessionTarget | undefined>(undefined)
+  const [resumeState, setResumeState] = useState<SavedSession['progress'] | undefined>(undefined)
   const [sessionData, setSessionData] = useState<SessionData | null>(null)
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [loadingMessage, setLoadingMessage] = useState('')
   const [showSavedSessionPrompt, setShowSavedSessionPrompt] = useState(false)
+  // An exercise opened from a share link, waiting to be saved or started
+  const [sharedExercise, setSharedExercise] = useState<SharedExercise | null>(null)
+  // Where screens reachable from several places go back to
+  const [returnScreen, setReturnScreen] = useState<AppScreen>('home')
 
   // Check if user has completed onboarding and if there's a saved session
   useEffect(() => {
@@ -97,6 +138,26 @@ export default function App() {
     }
   }, [])
 
+  // Pick up share links on launch, and ones pasted into an open tab
+  useEffect(() => {
+    const readShareLink = () => {
+      const payload = getShareLinkPayload()
+      if (!payload) return
+
+      clearShareLink()
+      const exercise = decodeSharedExercise(payload)
+      if (exercise) {
+        setSharedExercise(exercise)
+      } else {
+        toast.error("This share link couldn't be read. It may be incomplete or from a newer version of AORA.")
+      }
+    }
+
+    readShareLink()
+    window.addEventListener('hashchange', readShareLink)
+    return () => window.removeEventListener('hashchange', readShareLink)
+  }, [])
+
   // Apply dark theme by default
   useEffect(() => {
     const savedTheme = localStorage.getItem('aora-theme')
@@ -130,22 +191,88 @@ export default function App() {
     navigateToScreen('library', 'Loading exercises...')
   }
 
+  const openFrom = (screen: AppScreen, from: AppScreen, message?: string) => {
+    setReturnScreen(from)
+    navigateToScreen(screen, message)
+  }
+
+  const handleUseBaselinePattern = (pattern: BreathPattern) => {
+    setSelectedExercise(null)
+    setEditingExercise(null)
+    setCustomPattern(pattern)
+    navigateToScreen('control', 'Preparing your pattern...')
+  }
+
   const handleSelectExercise = (exercise: Exercise) => {
     setSelectedExercise(exercise)
+    setEditingExercise(null)
     navigateToScreen('control', 'Preparing session...')
   }
 
   const handleCreateCustom = () => {
     setSelectedExercise(null)
-    setCustomPattern({ inhale: 4, hold: 4, exhale: 4, pause: 4 })
+    setEditingExercise(null)
+    setCustomPattern(normalizePattern({ inhale: 4, hold: 4, exhale: 4, pause: 4 }))
     navigateToScreen('control', 'Creating custom pattern...')
   }
 
-  const handleStartSession = (pattern: BreathPattern, patternName?: string) => {
+  const handleEditExercise = (exercise: Exercise) => {
+    setSelectedExercise(null)
+    setCustomPattern(exercise.pattern)
+    setEditingExercise(exercise)
+    navigateToScreen('control', 'Opening editor...')
+  }
+
+  const handleStartSession = (pattern: BreathPattern, patternName?: string, target?: SessionTarget) => {
     setCustomPattern(pattern)
+    setSessionName(patternName)
+    setSessionTarget(target)
+    setActiveProgram(null)
+    setResumeState(undefined)
     navigateToScreen('session', 'Starting your practice...')
   }
 
+  // Favorites start straight away, at the session length last chosen in the control panel
+  const handleQuickStart = (exercise: Exercise) => {
+    let target: SessionTarget | undefined
+    const storedTarget = localStorage.getItem('aora-session-target')
+    if (storedTarget) {
+      try {
+        target = JSON.parse(storedTarget)
+      } catch (error) {
+        console.error('Error parsing session target:', error)
+      }
+    }
+
+    setSelectedExercise(exercise)
+    setEditingExercise(null)
+    handleStartSession(exercise.pattern, exercise.name, target)
+  }
+
+  const handleSaveShared = () => {
+    if (!sharedExercise) return
+    const name = saveSharedExercise(sharedExercise)
+    setSharedExercise(null)
+    toast.success(`Saved "${name}" to your library.`)
+    navigateToScreen('library', 'Loading exercises...')
+  }
+
+  const handleStartShared = () => {
+    if (!sharedExercise) return
+    handleQuickStart({ id: 'shared', description: 'Shared with you', ...sharedExercise })
+    setSharedExercise(null)
+  }
+
+  const handleStartProgram = (program: SessionProgram) => {
+    setSelectedExercise(null)
+    setCustomPattern(program.stages[0].pattern)
+    setSessionTarget(program.stages[0].target)
+    setActiveProgram(program)
+    setSessionName(undefined)
+    setResumeState(undefined)
+    navigateToScreen('session', 'Starting your program...')
+  }
+
   const handleSessionComplete = (data: SessionData) => {
     setSessionData(data)
     // Clear any saved session when completing normally
@@ -156,7 +283,10 @@ export default function App() {
   const handleReflectionComplete = () => {
     setSelectedExercise(null)
     setCustomPattern(null)
+    setActiveProgram(null)
+    setSessionName(undefined)
     setSessionData(null)
+    setResumeState(undefined)
     navigateToScreen('home', 'Returning home...')
   }
 
@@ -183,6 +313,10 @@ export default function App() {
       pattern: savedSession.pattern,
       color: '#2E3AF0'
     } : null)
+    setSessionTarget({ type: 'cycles', value: savedSession.progress.totalCycles })
+    setActiveProgram(null)
+    setSessionName(undefined)
+    setResumeState(savedSession.progress)
     setShowSavedSessionPrompt(false)
     navigateToScreen('session', 'Resuming your session...')
   }
@@ -193,7 +327,7 @@ export default function App() {
   }
 
   const showNavigation = hasCompletedOnboarding && 
-    !['onboarding', 'control', 'session', 'reflection'].includes(currentScreen)
+    !['onboarding', 'programs', 'tables', 'power', 'resonance', 'baseline', 'control', 'session', 'reflection'].includes(currentScreen)
 
   return (
     <div className="size-full min-h-screen bg-background text-foreground overflow-x-hidden overflow-y-auto touch-pan-y">
@@ -204,6 +338,19 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Shared pattern preview; waits for onboarding and never interrupts a session */}
+      <AnimatePresence>
+        {sharedExercise && !['onboarding', 'session'].includes(currentScreen) && (
+          <SharedExercisePreview
+            key="shared-exercise"
+            exercise={sharedExercise}
+            onSave={handleSaveShared}
+            onStart={handleStartShared}
+            onDismiss={() => setSharedExercise(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Saved Session Prompt */}
       <AnimatePresence>
         {showSavedSessionPrompt && (
@@ -234,13 +381,50 @@ export default function App() {
         )}
 
         {currentScreen === 'home' && (
-          <HomeScreen onStartPractice={handleStartPractice} />
+          <HomeScreen onStartPractice={handleStartPractice} onQuickStart={handleQuickStart} />
         )}
 
         {currentScreen === 'library' && (
           <UpdatedExerciseLibrary 
             onSelectExercise={handleSelectExercise}
             onCreateCustom={handleCreateCustom}
+            onEditExercise={handleEditExercise}
+            onOpenPrograms={() => navigateToScreen('programs', 'Loading programs...')}
+            onOpenTables={() => navigateToScreen('tables', 'Loading tables...')}
+            onOpenPower={() => navigateToScreen('power', 'Preparing rounds...')}
+            onAssessResonance={() => openFrom('resonance', 'library', 'Preparing assessment...')}
+          />
+        )}
+
+        {currentScreen === 'programs' && (
+          <ProgramBuilder
+            onBack={() => navigateToScreen('library', 'Loading exercises...')}
+            onStartProgram={handleStartProgram}
+          />
+        )}
+
+        {currentScreen === 'tables' && (
+          <ApneaTableScreen
+            onBack={() => navigateToScreen('library', 'Loading exercises...')}
+          />
+        )}
+
+        {currentScreen === 'power' && (
+          <PowerBreathingScreen
+            onBack={() => navigateToScreen('library', 'Loading exercises...')}
+          />
+        )}
+
+        {currentScreen === 'resonance' && (
+          <ResonanceAssessment
+            onBack={() => navigateToScreen(returnScreen)}
+          />
+        )}
+
+        {currentScreen === 'baseline' && (
+          <BaselineScreen
+            onBack={() => navigateToScreen(returnScreen)}
+            onUsePattern={handleUseBaselinePattern}
           />
         )}
 
@@ -251,13 +435,18 @@ export default function App() {
             onSavePreset={() => navigateToScreen('library', 'Returning to library...')}
             initialPattern={selectedExercise?.pattern || customPattern || undefined}
             presetName={selectedExercise?.name}
+            editExercise={editingExercise ?? undefined}
+            onMeasureBaseline={() => openFrom('baseline', 'control', 'Preparing measurement...')}
           />
         )}
 
         {currentScreen === 'session' && customPattern && (
           <SessionScreen
             pattern={customPattern}
-            patternName={selectedExercise?.name}
+            patternName={activeProgram?.name ?? sessionName ?? selectedExercise?.name}
+            target={sessionTarget}
+            program={activeProgram ?? undefined}
+            resumeState={resumeState}
             onExit={handleSessionComplete}
           />
         )}
@@ -272,6 +461,8 @@ export default function App() {
         {currentScreen === 'progress' && (
           <ProgressDashboard
             onStartPractice={handleStartPractice}
+            onAssessResonance={() => openFrom('resonance', 'progress', 'Preparing assessment...')}
+            onMeasureBaseline={() => openFrom('baseline', 'progress', 'Preparing measurement...')}
           />
         )}
 
@@ -0,0 +1,117 @@
+// Follow-along adherence scoring for AORA
+//
+// In follow-along mode the breather holds the orb (or the spacebar) while
+// breathing in and lets go to breathe out. Each press and release is matched
+// to the paced transition it was meant for, and scored by how close it came.
+
+import { isInhalePhase } from './BreathPattern'
+import { BreathState } from './BreathScheduler'
+
+type Transition = 'press' | 'release'
+
+// `time` is active (unpaused) seconds into the session
+interface Cue {
+  kind: Transition
+  time: number
+  cycle: number
+  window: number
+}
+
+interface Input {
+  kind: Transition
+  time: number
+}
+
+export interface AdherenceResult {
+  // 0-100 for the session and for each scored cycle
+  score: number
+  cycles: number[]
+  // Mean timing error in seconds; positive is late, negative is early
+  offset: number
+}
+
+// A press or release this far from its cue, or further, scores nothing;
+// half the phase length, within these bounds
+const MIN_WINDOW = 0.75
+const MAX_WINDOW = 1.5
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+export class AdherenceTracker {
+  private cues: Cue[] = []
+  private inputs: Input[] = []
+  private lastPhase = ''
+  private lastCue: Transition | null = null
+
+  // Note the transition a phase asks for as it begins: a press into the first
+  // inhale, a release into the exhale. Holds keep whatever came before.
+  trackPhase(state: BreathState) {
+    const key = `${state.cycle}.${state.phaseIndex}`
+    if (key === this.lastPhase) return
+    this.lastPhase = key
+
+    const kind = isInhalePhase(state.phase) ? 'press' : state.phase === 'exhale' ? 'release' : null
+    if (!kind || kind === this.lastCue) return
+    this.lastCue = kind
+
+    const window = Math.min(MAX_WINDOW, Math.max(MIN_WINDOW, state.phaseDuration / 2))
+    // Phases first seen well after they began (resuming, returning to the tab) weren't fair to follow
+    if (state.phaseElapsed > window) return
+
+    this.cues.push({ kind, time: state.elapsed - state.phaseElapsed, cycle: state.cycle, window })
+  }
+
+  input(kind: Transition, time: number) {
+    if (this.inputs[this.inputs.length - 1]?.kind === kind) return
+    this.inputs.push({ kind, time })
+  }
+
+  // Null when there was nothing to score, or the breather never pressed at all
+  getResult(endTime: number): AdherenceResult | null {
+    if (this.inputs.length === 0) return null
+
+    const used = new Set<number>()
+    const cycleScores = new Map<number, number[]>()
+    const offsets: number[] = []
+
+    for (const cue of this.cues) {
+      let match = -1
+      this.inputs.forEach((input, index) => {
+        if (input.kind !== cue.kind || used.has(index)) return
+        const error = Math.abs(input.time - cue.time)
+        if (error < cue.window && (match < 0 || error < Math.abs(this.inputs[match].time - cue.time))) {
+          match = index
+        }
+      })
+
+      // A cue the session ended on before it could be answered isn't a miss
+      if (match < 0 && cue.time + cue.window > endTime) continue
+
+      let score = 0
+      if (match >= 0) {
+        used.add(match)
+        const offset = this.inputs[match].time - cue.time
+        offsets.push(offset)
+        score = 1 - Math.abs(offset) / cue.window
+      }
+      cycleScores.set(cue.cycle, [...(cycleScores.get(cue.cycle) ?? []), score])
+    }
+
+    if (cycleScores.size === 0) return null
+
+    const cycles = [...cycleScores.values()].map(scores => Math.round(average(scores) * 100))
+    return {
+      score: Math.round(average(cycles)),
+      cycles,
+      offset: offsets.length > 0 ? Number(average(offsets).toFixed(2)) : 0
+    }
+  }
+}
+
+export function getFollowAlong(): boolean {
+  try {
+    return JSON.parse(localStorage.getItem('aora-follow-along') ?? 'false')
+  } catch (error) {
+    return false
+  }
+}
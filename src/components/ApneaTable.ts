@@ -0,0 +1,72 @@
+// CO2 and O2 breath-hold tables for AORA
+//
+// Both tables are calibrated from a measured maximum breath hold. A CO2
+// table keeps the hold fixed and shortens the rest between rounds; an O2
+// table keeps the rest fixed and lengthens the hold.
+
+export type TableKind = 'co2' | 'o2'
+
+export interface TableRound {
+  rest: number
+  hold: number
+}
+
+// How one round of a table went; `held` is the actual hold in seconds
+export interface TableRoundResult extends TableRound {
+  held: number
+  completed: boolean
+}
+
+export interface MaxHoldRecord {
+  date: string
+  seconds: number
+}
+
+export const TABLE_ROUNDS = 8
+
+export const tableKinds: { id: TableKind, name: string, description: string }[] = [
+  { id: 'co2', name: 'CO2 Table', description: 'Same hold each round, shorter rests' },
+  { id: 'o2', name: 'O2 Table', description: 'Same rest each round, longer holds' }
+]
+
+export const safetyReminders = [
+  'Practice dry only: never in or near water, in a bath, or while driving.',
+  'Sit or lie down somewhere you can’t fall.',
+  'Don’t hyperventilate before a hold; breathe calmly.',
+  'Stop at once if you feel dizzy, tingly or unwell.'
+]
+
+// Holds and rests are rounded to 5s so the countdowns are easy to follow
+const roundTo5 = (seconds: number) => Math.max(5, Math.round(seconds / 5) * 5)
+
+export function generateTable(kind: TableKind, maxHold: number): TableRound[] {
+  return Array.from({ length: TABLE_ROUNDS }, (_, round) => {
+    if (kind === 'co2') {
+      // 2:00 rest down to 0:15, hold at half the max
+      return { rest: Math.max(15, 120 - round * 15), hold: roundTo5(maxHold * 0.5) }
+    }
+    // 2:00 rest, hold from 40% up to 80% of the max
+    const share = 0.4 + (0.4 * round) / (TABLE_ROUNDS - 1)
+    return { rest: 120, hold: roundTo5(maxHold * share) }
+  })
+}
+
+export function getTableDuration(rounds: TableRound[]): number {
+  return rounds.reduce((total, round) => total + round.rest + round.hold, 0)
+}
+
+export function loadMaxHolds(): MaxHoldRecord[] {
+  try {
+    const stored = localStorage.getItem('aora-max-holds')
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error('Error parsing max holds:', error)
+  }
+  return []
+}
+
+export function saveMaxHold(seconds: number): MaxHoldRecord[] {
+  const records = [...loadMaxHolds(), { date: new Date().toISOString(), seconds: Math.round(seconds) }]
+  localStorage.setItem('aora-max-holds', JSON.stringify(records))
+  return records
+}
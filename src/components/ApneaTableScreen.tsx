@@ -0,0 +1,471 @@
+import { useState, useEffect, useRef } from 'react'
+import { motion, AnimatePresence } from 'motion/react'
+import { ArrowLeft, AlertTriangle, Play, Square, Timer, Wind } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { toast } from 'sonner@2.0.3'
+import { audioCueEngine } from './AudioCueEngine'
+import { hapticsEngine, getHapticSettings } from './HapticsEngine'
+import { voiceGuide, getVoiceSettings } from './VoiceGuide'
+import { useWakeLock } from './useWakeLock'
+import { appendSessionHistory } from './SessionLog'
+import {
+  MaxHoldRecord,
+  TableKind,
+  TableRoundResult,
+  generateTable,
+  getTableDuration,
+  loadMaxHolds,
+  safetyReminders,
+  saveMaxHold,
+  tableKinds
+} from './ApneaTable'
+
+type TableView = 'setup' | 'test' | 'table' | 'summary'
+type TableSegment = 'rest' | 'hold'
+
+interface ApneaTableScreenProps {
+  onBack: () => void
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const announce = (text: string) => {
+  const voiceSettings = getVoiceSettings()
+  if (voiceSettings.enabled) voiceGuide.announce(text, voiceSettings)
+}
+
+// Marks every switch between holding and breathing, whatever the Sound Cues setting
+const signal = () => {
+  audioCueEngine.playSignal()
+  if (getHapticSettings().enabled) hapticsEngine.playSignal()
+}
+
+function SafetyCard() {
+  return (
+    <Card className="p-5 glass-card border-white/20">
+      <div className="flex items-center space-x-2 mb-3">
+        <AlertTriangle className="w-4 h-4 text-amber-400" />
+        <h3 className="text-sm font-medium text-amber-400">Before you start</h3>
+      </div>
+      <ul className="space-y-2">
+        {safetyReminders.map((reminder) => (
+          <li key={reminder} className="text-xs text-white/70 leading-relaxed">{reminder}</li>
+        ))}
+      </ul>
+    </Card>
+  )
+}
+
+export function ApneaTableScreen({ onBack }: ApneaTableScreenProps) {
+  const [view, setView] = useState<TableView>('setup')
+  const [kind, setKind] = useState<TableKind>('co2')
+  const [maxHolds, setMaxHolds] = useState<MaxHoldRecord[]>(loadMaxHolds)
+  const [now, setNow] = useState(Date.now())
+
+  // Max hold test
+  const [testStartedAt, setTestStartedAt] = useState<number | null>(null)
+  const [testResult, setTestResult] = useState<number | null>(null)
+
+  // Table run
+  const [roundIndex, setRoundIndex] = useState(0)
+  const [segment, setSegment] = useState<TableSegment>('rest')
+  const [segmentStartedAt, setSegmentStartedAt] = useState(0)
+  const [results, setResults] = useState<TableRoundResult[]>([])
+  const tableStartedAtRef = useRef(0)
+  const warnedRoundRef = useRef(-1)
+
+  const maxHold = maxHolds.length > 0 ? maxHolds[maxHolds.length - 1].seconds : null
+  const rounds = maxHold ? generateTable(kind, maxHold) : []
+  const round = rounds[roundIndex]
+  const isRunning = view === 'table' || testStartedAt !== null
+
+  useWakeLock(isRunning)
+
+  // Countdowns are measured against the clock, the interval only redraws them
+  useEffect(() => {
+    if (!isRunning) return
+    const interval = window.setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(interval)
+  }, [isRunning])
+
+  useEffect(() => () => voiceGuide.cancel(), [])
+
+  const segmentElapsed = Math.max(0, (now - segmentStartedAt) / 1000)
+  const segmentDuration = round ? (segment === 'rest' ? round.rest : round.hold) : 0
+  const segmentRemaining = Math.max(0, segmentDuration - segmentElapsed)
+
+  const saveToHistory = (roundResults: TableRoundResult[]) => {
+    const duration = Math.round((Date.now() - tableStartedAtRef.current) / 1000)
+    const sessionRecord = {
+      date: new Date().toISOString(),
+      duration,
+      activeTime: duration,
+      pausedTime: 0,
+      exercise: tableKinds.find(table => table.id === kind)?.name ?? 'Breath-Hold Table',
+      cycles: roundResults.filter(result => result.completed).length,
+      completed: roundResults.length === rounds.length && roundResults.every(result => result.completed),
+      table: { kind, maxHold, rounds: roundResults }
+    }
+
+    if (!appendSessionHistory(sessionRecord)) {
+      toast.error("Couldn't save this session. Your device's storage is full.")
+    }
+  }
+
+  const finishTable = (roundResults: TableRoundResult[]) => {
+    setResults(roundResults)
+    if (roundResults.length > 0) saveToHistory(roundResults)
+    setView('summary')
+  }
+
+  const startTable = () => {
+    const startedAt = Date.now()
+    tableStartedAtRef.current = startedAt
+    warnedRoundRef.current = -1
+    setResults([])
+    setRoundIndex(0)
+    setSegment('rest')
+    setSegmentStartedAt(startedAt)
+    setNow(startedAt)
+    setView('table')
+    announce('Breathe calmly.')
+  }
+
+  // Record the hold in progress; a hold cut short still counts toward history
+  const endHold = (completed: boolean) => {
+    if (!round) return
+
+    const held = completed ? round.hold : Math.round(Math.min(round.hold, (Date.now() - segmentStartedAt) / 1000))
+    const updated = [...results, { ...round, held, completed }]
+    setResults(updated)
+
+    if (roundIndex >= rounds.length - 1) {
+      signal()
+      announce('Table complete. Breathe easy.')
+      finishTable(updated)
+      return
+    }
+
+    setRoundIndex(roundIndex + 1)
+    setSegment('rest')
+    setSegmentStartedAt(completed ? segmentStartedAt + round.hold * 1000 : Date.now())
+    signal()
+    announce('Breathe.')
+  }
+
+  // Move between rest and hold when a countdown runs out
+  useEffect(() => {
+    if (view !== 'table' || !round) return
+
+    if (segment === 'rest' && segmentRemaining <= 10 && warnedRoundRef.current !== roundIndex) {
+      warnedRoundRef.current = roundIndex
+      announce('Ten seconds.')
+    }
+
+    if (segmentRemaining > 0) return
+
+    if (segment === 'rest') {
+      setSegment('hold')
+      setSegmentStartedAt(segmentStartedAt + round.rest * 1000)
+      signal()
+      announce('Hold.')
+    } else {
+      endHold(true)
+    }
+  }, [now])
+
+  const handleStop = () => {
+    voiceGuide.cancel()
+    if (view === 'test') {
+      setTestStartedAt(null)
+      setView('setup')
+      return
+    }
+
+    const partial = segment === 'hold' && round
+      ? [...results, { ...round, held: Math.round(Math.min(round.hold, segmentElapsed)), completed: false }]
+      : results
+    finishTable(partial)
+  }
+
+  const startTest = () => {
+    const startedAt = Date.now()
+    setTestResult(null)
+    setTestStartedAt(startedAt)
+    setNow(startedAt)
+  }
+
+  const endTest = () => {
+    if (testStartedAt === null) return
+    setTestResult(Math.round((Date.now() - testStartedAt) / 1000))
+    setTestStartedAt(null)
+  }
+
+  const saveTest = () => {
+    if (!testResult) return
+    setMaxHolds(saveMaxHold(testResult))
+    setTestResult(null)
+    setView('setup')
+    toast.success(`Max hold set to ${formatTime(testResult)}.`)
+  }
+
+  return (
+    <div className="min-h-screen bg-background overflow-y-auto">
+      {/* Always-visible stop while a hold or table is running */}
+      {(isRunning || view === 'test') && (
+        <div className="fixed top-0 right-0 pt-16 px-6 z-50">
+          <Button
+            onClick={handleStop}
+            className="h-12 px-6 rounded-2xl bg-red-600 text-white border border-red-500/30"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            Stop
+          </Button>
+        </div>
+      )}
+
+      {/* Header */}
+      <motion.div
+        className="flex items-center justify-between pt-16 pb-6 px-6"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        {view === 'setup' ? (
+          <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+        ) : (
+          <div className="w-9" />
+        )}
+
+        <div className="text-center">
+          <h1 className="text-xl">Breath-Hold Tables</h1>
+          <p className="text-sm text-white/60">
+            {view === 'test' ? 'Max hold test' : tableKinds.find(table => table.id === kind)?.name}
+          </p>
+        </div>
+
+        <div className="w-9" /> {/* Spacer */}
+      </motion.div>
+
+      <div className="px-6 space-y-6 pb-32">
+        {view === 'setup' && (
+          <>
+            <SafetyCard />
+
+            {/* Max hold */}
+            <Card className="p-6 glass-card border-white/20">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-white/60 uppercase tracking-wide">Max Hold</p>
+                  <p className="text-3xl font-light tabular-nums">{maxHold ? formatTime(maxHold) : '–'}</p>
+                  {maxHolds.length > 1 && (
+                    <p className="text-xs text-white/40">
+                      Best {formatTime(Math.max(...maxHolds.map(record => record.seconds)))} over {maxHolds.length} tests
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setView('test')}
+                  className="rounded-xl border-white/20 hover:bg-white/5"
+                >
+                  <Timer className="w-4 h-4 mr-2" />
+                  {maxHold ? 'Retest' : 'Test'}
+                </Button>
+              </div>
+            </Card>
+
+            {/* Table choice */}
+            <div className="space-y-3">
+              {tableKinds.map((table) => (
+                <div
+                  key={table.id}
+                  className={`p-4 rounded-xl border cursor-pointer transition-all duration-300 ${
+                    kind === table.id ? 'border-blue-500/50 bg-blue-500/5' : 'border-white/10 bg-white/[0.02]'
+                  }`}
+                  onClick={() => setKind(table.id)}
+                >
+                  <h4 className="font-medium">{table.name}</h4>
+                  <p className="text-sm text-white/60">{table.description}</p>
+                </div>
+              ))}
+            </div>
+
+            {maxHold ? (
+              <Card className="p-6 bg-white/[0.02] border-white/10">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg">Rounds</h3>
+                  <span className="text-xs text-white/50">{formatTime(getTableDuration(rounds))} total</span>
+                </div>
+                <div className="space-y-2">
+                  {rounds.map((tableRound, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm tabular-nums">
+                      <span className="text-white/50">Round {index + 1}</span>
+                      <span className="text-white/70">Rest {formatTime(tableRound.rest)}</span>
+                      <span className="text-white/90">Hold {formatTime(tableRound.hold)}</span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            ) : (
+              <p className="text-sm text-white/60 text-center">
+                Take the max hold test first so the table can be sized for you.
+              </p>
+            )}
+
+            <Button
+              onClick={startTable}
+              disabled={!maxHold}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700 aora-glow"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              Start Table
+            </Button>
+          </>
+        )}
+
+        {view === 'test' && (
+          <>
+            <SafetyCard />
+
+            <Card className="p-8 glass-card border-white/20 text-center space-y-6">
+              {testStartedAt !== null ? (
+                <>
+                  <p className="text-sm text-white/60 uppercase tracking-wide">Holding</p>
+                  <p className="font-light tabular-nums" style={{ fontSize: '3.75rem' }}>{formatTime((now - testStartedAt) / 1000)}</p>
+                  <Button
+                    onClick={endTest}
+                    className="w-full h-14 rounded-2xl bg-gradient-to-r from-emerald-500 to-teal-600"
+                  >
+                    <Wind className="w-5 h-5 mr-2" />
+                    Breathe
+                  </Button>
+                </>
+              ) : testResult !== null ? (
+                <>
+                  <p className="text-sm text-white/60 uppercase tracking-wide">Your Hold</p>
+                  <p className="font-light tabular-nums" style={{ fontSize: '3.75rem' }}>{formatTime(testResult)}</p>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="outline"
+                      onClick={startTest}
+                      className="flex-1 h-12 rounded-xl border-white/20 hover:bg-white/5"
+                    >
+                      Try Again
+                    </Button>
+                    <Button
+                      onClick={saveTest}
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-violet-600"
+                    >
+                      Use This
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-white/70 leading-relaxed">
+                    Breathe calmly for two minutes, take a full breath in, then start the timer and hold.
+                    Tap Breathe as soon as you need to.
+                  </p>
+                  <Button
+                    onClick={startTest}
+                    className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 aora-glow"
+                  >
+                    <Timer className="w-5 h-5 mr-2" />
+                    Start Hold
+                  </Button>
+                </>
+              )}
+            </Card>
+          </>
+        )}
+
+        {view === 'table' && round && (
+          <div className="flex flex-col items-center space-y-8 pt-8">
+            <p className="text-sm text-white/60 uppercase tracking-wide">
+              Round {roundIndex + 1} of {rounds.length}
+            </p>
+
+            <motion.div
+              className="rounded-full glass-card flex flex-col items-center justify-center"
+              style={{ width: 256, height: 256 }}
+              animate={{
+                borderColor: segment === 'hold' ? 'rgba(167, 139, 250, 0.6)' : 'rgba(96, 165, 250, 0.4)'
+              }}
+              transition={{ duration: 0.6 }}
+            >
+              <AnimatePresence mode="wait">
+                <motion.p
+                  key={segment}
+                  className="text-2xl tracking-wide mb-2"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                >
+                  {segment === 'hold' ? 'Hold' : 'Breathe'}
+                </motion.p>
+              </AnimatePresence>
+              <p className="font-light tabular-nums" style={{ fontSize: '3rem' }}>{formatTime(Math.ceil(segmentRemaining))}</p>
+            </motion.div>
+
+            {segment === 'hold' && (
+              <Button
+                variant="outline"
+                onClick={() => endHold(false)}
+                className="h-12 px-6 rounded-xl border-white/20 hover:bg-white/5"
+              >
+                <Wind className="w-4 h-4 mr-2" />
+                Breathe Now
+              </Button>
+            )}
+
+            <p className="text-xs text-white/50 text-center">
+              Stop whenever you need to. Contractions are normal; dizziness is not.
+            </p>
+          </div>
+        )}
+
+        {view === 'summary' && (
+          <>
+            <Card className="p-6 glass-card border-white/20">
+              <h3 className="text-lg mb-4">
+                {results.filter(result => result.completed).length} of {rounds.length} rounds completed
+              </h3>
+              {results.length === 0 ? (
+                <p className="text-sm text-white/60">Stopped before the first hold.</p>
+              ) : (
+                <div className="space-y-2">
+                  {results.map((result, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm tabular-nums">
+                      <span className="text-white/50">Round {index + 1}</span>
+                      <span className="text-white/90">
+                        {formatTime(result.held)} / {formatTime(result.hold)}
+                      </span>
+                      <span className={result.completed ? 'text-green-400' : 'text-amber-400'}>
+                        {result.completed ? 'Held' : 'Released'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            <Button
+              onClick={onBack}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700"
+            >
+              Done
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
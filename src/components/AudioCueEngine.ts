@@ -0,0 +1,291 @@
+// Synthesized Web Audio cues for AORA breath phases
+//
+// Cues are scheduled on the AudioContext clock a little ahead of each phase
+// boundary, so they land sample-accurately even when the main thread is busy.
+
+import { PhaseType } from './BreathPattern'
+import { BreathScheduler } from './BreathScheduler'
+
+export type CueStyle = 'tones' | 'swells' | 'bells'
+
+export interface SoundSettings {
+  enabled: boolean
+  volume: number
+  style: CueStyle
+}
+
+export const cueStyles: { id: CueStyle, name: string, description: string }[] = [
+  { id: 'tones', name: 'Tones', description: 'Short, clear pitches' },
+  { id: 'swells', name: 'Swells', description: 'Rising and falling waves' },
+  { id: 'bells', name: 'Bells', description: 'Soft resonant chimes' }
+]
+
+const DEFAULT_SETTINGS: SoundSettings = { enabled: false, volume: 0.6, style: 'tones' }
+
+// Pitches rise on the way in and fall on the way out
+const phaseFrequencies: Record<PhaseType, [number, number]> = {
+  'inhale': [392, 523],
+  'top-up': [523, 659],
+  'hold-full': [587, 587],
+  'exhale': [523, 349],
+  'hold-empty': [294, 294],
+  'retention': [262, 262]
+}
+
+const LOOKAHEAD_SECONDS = 0.3
+const TICK_MS = 100
+
+type AudioContextConstructor = typeof AudioContext
+
+export function getSoundSettings(): SoundSettings {
+  const parse = <T,>(key: string, fallback: T): T => {
+    const stored = localStorage.getItem(key)
+    if (stored === null) return fallback
+    try {
+      return JSON.parse(stored)
+    } catch (error) {
+      console.error(`Error parsing ${key}:`, error)
+      return fallback
+    }
+  }
+
+  return {
+    enabled: parse('aora-sound', DEFAULT_SETTINGS.enabled),
+    volume: parse('aora-sound-volume', DEFAULT_SETTINGS.volume),
+    style: parse('aora-sound-style', DEFAULT_SETTINGS.style)
+  }
+}
+
+export class AudioCueEngine {
+  private static instance: AudioCueEngine
+  private context: AudioContext | null = null
+  private scheduledKeys: Set<string> = new Set()
+  private pendingSources: Set<AudioScheduledSourceNode> = new Set()
+  private cueWindows: [number, number][] = []
+  private tickId: number | null = null
+
+  static getInstance(): AudioCueEngine {
+    if (!AudioCueEngine.instance) {
+      AudioCueEngine.instance = new AudioCueEngine()
+    }
+    return AudioCueEngine.instance
+  }
+
+  isSupported(): boolean {
+    return !!this.getContextConstructor()
+  }
+
+  // Follow a running scheduler and cue every phase boundary ahead of time
+  startCues(scheduler: BreathScheduler): void {
+    this.stopCues()
+    const context = this.getContext()
+    if (!context) return
+
+    const tick = () => {
+      if (!scheduler.isRunning) {
+        this.cancelPending()
+        return
+      }
+
+      const settings = getSoundSettings()
+      const pattern = scheduler.getPattern()
+      const state = scheduler.getState()
+      const now = context.currentTime
+
+      // The phase that just began (e.g. at session start) still gets its cue
+      const currentKey = `${state.cycle}:${state.phaseIndex}`
+      if (state.phaseElapsed < 0.25 && !this.scheduledKeys.has(currentKey)) {
+        this.scheduledKeys.add(currentKey)
+        this.playCue(state.phase, state.phaseRemaining, now, settings)
+      }
+
+      // Walk forward through upcoming boundaries inside the lookahead window
+      let at = now + state.phaseRemaining
+      let cycle = state.cycle
+      let index = state.phaseIndex
+      for (let guard = 0; guard < pattern.phases.length * 2 && at <= now + LOOKAHEAD_SECONDS; guard++) {
+        index += 1
+        if (index >= pattern.phases.length) {
+          index = 0
+          cycle += 1
+        }
+
+        const phase = pattern.phases[index]
+        if (phase.duration <= 0) continue
+
+        const key = `${cycle}:${index}`
+        if (!this.scheduledKeys.has(key)) {
+          this.scheduledKeys.add(key)
+          this.playCue(phase.type, phase.duration, at, settings)
+        }
+        at += phase.duration
+      }
+    }
+
+    tick()
+    this.tickId = window.setInterval(tick, TICK_MS)
+  }
+
+  stopCues(): void {
+    if (this.tickId !== null) {
+      clearInterval(this.tickId)
+      this.tickId = null
+    }
+    this.cancelPending()
+  }
+
+  // Whether a scheduled cue is audible right now, used to duck the voice guide
+  isSounding(): boolean {
+    if (!this.context) return false
+
+    const now = this.context.currentTime
+    this.cueWindows = this.cueWindows.filter(([, end]) => end > now)
+    return this.cueWindows.some(([start]) => start <= now + 0.05)
+  }
+
+  // Play every phase sound in turn so a style can be auditioned
+  preview(style: CueStyle, volume: number): void {
+    const context = this.getContext()
+    if (!context) return
+
+    const settings: SoundSettings = { enabled: true, volume, style }
+    const order: PhaseType[] = ['inhale', 'hold-full', 'exhale', 'hold-empty']
+    order.forEach((phase, i) => {
+      this.playCue(phase, 1.2, context.currentTime + 0.05 + i * 1.3, settings)
+    })
+  }
+
+  // Soft bell played when a session reaches its target; silent while Sound Cues are off
+  playChime(volume = getSoundSettings().volume * 0.4): void {
+    if (!getSoundSettings().enabled) return
+    this.playBells(volume)
+  }
+
+  // The same bell for moments the breather has to act on, like the end of a breath hold.
+  // It plays even with Sound Cues off: nobody holding their breath should have to watch the screen.
+  playSignal(volume = getSoundSettings().volume * 0.4): void {
+    this.playBells(volume)
+  }
+
+  private playBells(volume: number): void {
+    const context = this.getContext()
+    if (!context) return
+
+    const start = context.currentTime + 0.05
+    // Not tracked as pending, so the bell outlives the session that triggered it
+    this.playBell(528, start, 3.5, volume, false)
+    this.playBell(792, start + 0.35, 3, volume * 0.6, false)
+  }
+
+  private playCue(phase: PhaseType, duration: number, at: number, settings: SoundSettings): void {
+    const [from, to] = phaseFrequencies[phase]
+    const level = Math.max(0, Math.min(1, settings.volume)) * 0.3
+    if (level === 0) return
+
+    switch (settings.style) {
+      case 'tones':
+        this.playTone(from, from, at, 0.25, level)
+        break
+      case 'swells':
+        this.playTone(from, to, at, Math.min(Math.max(duration, 0.5), 4), level * 0.8)
+        break
+      case 'bells':
+        this.playBell(to, at, 2.5, level)
+        break
+    }
+  }
+
+  private playTone(from: number, to: number, at: number, duration: number, level: number): void {
+    const context = this.getContext()
+    if (!context) return
+
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    const attack = Math.min(0.05 + duration * 0.3, 1.2)
+
+    oscillator.type = 'sine'
+    oscillator.frequency.setValueAtTime(from, at)
+    oscillator.frequency.linearRampToValueAtTime(to, at + duration)
+    gain.gain.setValueAtTime(0.0001, at)
+    gain.gain.exponentialRampToValueAtTime(level, at + attack)
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + duration)
+
+    this.connect(oscillator, gain, at, at + duration + 0.05)
+  }
+
+  private playBell(frequency: number, at: number, decay: number, level: number, track = true): void {
+    const context = this.getContext()
+    if (!context) return
+
+    // Fundamental plus an inharmonic overtone for a bowl-like timbre
+    ;[[1, 1], [2.76, 0.35]].forEach(([ratio, partialLevel]) => {
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+
+      oscillator.type = 'sine'
+      oscillator.frequency.setValueAtTime(frequency * ratio, at)
+      gain.gain.setValueAtTime(0.0001, at)
+      gain.gain.exponentialRampToValueAtTime(Math.max(level * partialLevel, 0.0002), at + 0.02)
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + decay / ratio)
+
+      this.connect(oscillator, gain, at, at + decay + 0.05, track)
+    })
+  }
+
+  private connect(source: AudioScheduledSourceNode, gain: GainNode, start: number, stop: number, track = true): void {
+    const context = this.getContext()
+    if (!context) return
+
+    source.connect(gain)
+    gain.connect(context.destination)
+    source.start(start)
+    source.stop(stop)
+
+    if (track) {
+      this.pendingSources.add(source)
+      this.cueWindows.push([start, stop])
+    }
+    source.onended = () => {
+      this.pendingSources.delete(source)
+      gain.disconnect()
+    }
+  }
+
+  private cancelPending(): void {
+    this.pendingSources.forEach(source => {
+      try {
+        source.stop()
+      } catch (error) {
+        // Already stopped
+      }
+    })
+    this.pendingSources.clear()
+    this.scheduledKeys.clear()
+    this.cueWindows = []
+  }
+
+  private getContextConstructor(): AudioContextConstructor | undefined {
+    if (typeof window === 'undefined') return undefined
+    return window.AudioContext ||
+      (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext
+  }
+
+  private getContext(): AudioContext | null {
+    if (!this.context) {
+      const Context = this.getContextConstructor()
+      if (!Context) return null
+      try {
+        this.context = new Context()
+      } catch (error) {
+        console.error('Error creating audio context:', error)
+        return null
+      }
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {})
+    }
+    return this.context
+  }
+}
+
+export const audioCueEngine = AudioCueEngine.getInstance()
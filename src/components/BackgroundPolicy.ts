@@ -0,0 +1,33 @@
+// What a session does while the app is hidden
+//
+// Browsers throttle timers in background tabs, so the session reconciles
+// against the clock when it becomes visible again rather than trusting them.
+// Cues are scheduled from those same timers, so most go unplayed while hidden.
+
+export type BackgroundMode = 'keep-running' | 'pause' | 'pause-after'
+
+export interface BackgroundPolicy {
+  mode: BackgroundMode
+  seconds: number
+}
+
+export const backgroundModes: { id: BackgroundMode, name: string, description: string }[] = [
+  { id: 'keep-running', name: 'Keep running', description: 'Timing continues; cues resume when you return' },
+  { id: 'pause', name: 'Pause when hidden', description: 'Pick up exactly where you left off' },
+  { id: 'pause-after', name: 'Pause after a while', description: 'Allow a short glance at another app' }
+]
+
+const DEFAULT_POLICY: BackgroundPolicy = { mode: 'keep-running', seconds: 30 }
+
+export function getBackgroundPolicy(): BackgroundPolicy {
+  try {
+    const stored = localStorage.getItem('aora-background-policy')
+    if (stored) {
+      return { ...DEFAULT_POLICY, ...JSON.parse(stored) }
+    }
+  } catch (error) {
+    console.error('Error parsing background policy:', error)
+  }
+
+  return DEFAULT_POLICY
+}
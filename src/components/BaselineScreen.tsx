@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from 'react'
+import { motion } from 'motion/react'
+import { ArrowLeft, Gauge, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { BreathingOrb } from './BreathingOrb'
+import { BreathPattern, formatPattern } from './BreathPattern'
+import { useWakeLock } from './useWakeLock'
+import {
+  BASELINE_SECONDS,
+  BaselineResult,
+  BreathPress,
+  analyzeBaseline,
+  getStartingPattern,
+  saveBaseline
+} from './BreathingBaseline'
+
+type BaselineStep = 'intro' | 'measuring' | 'result'
+
+interface BaselineScreenProps {
+  onBack: () => void
+  onUsePattern: (pattern: BreathPattern) => void
+}
+
+export function BaselineScreen({ onBack, onUsePattern }: BaselineScreenProps) {
+  const [step, setStep] = useState<BaselineStep>('intro')
+  const [isPressed, setIsPressed] = useState(false)
+  const [breathCount, setBreathCount] = useState(0)
+  const [now, setNow] = useState(Date.now())
+  const [result, setResult] = useState<BaselineResult | null>(null)
+  const startedAtRef = useRef(0)
+  const pressesRef = useRef<BreathPress[]>([])
+  const pressStartRef = useRef<number | null>(null)
+
+  const remaining = Math.max(0, BASELINE_SECONDS - (now - startedAtRef.current) / 1000)
+
+  useWakeLock(step === 'measuring')
+
+  const pressDown = () => {
+    if (step !== 'measuring' || pressStartRef.current !== null) return
+    pressStartRef.current = Date.now() - startedAtRef.current
+    setIsPressed(true)
+  }
+
+  const pressUp = () => {
+    if (step !== 'measuring' || pressStartRef.current === null) return
+    pressesRef.current.push({ down: pressStartRef.current, up: Date.now() - startedAtRef.current })
+    pressStartRef.current = null
+    setIsPressed(false)
+    setBreathCount(pressesRef.current.length)
+  }
+
+  // The spacebar works like holding the screen
+  useEffect(() => {
+    if (step !== 'measuring') return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return
+      e.preventDefault()
+      if (!e.repeat) pressDown()
+    }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return
+      e.preventDefault()
+      pressUp()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+    }
+  }, [step])
+
+  useEffect(() => {
+    if (step !== 'measuring') return
+    const interval = window.setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(interval)
+  }, [step])
+
+  // Finish once the minute is up; an inhale still held counts up to that moment
+  useEffect(() => {
+    if (step !== 'measuring' || remaining > 0) return
+
+    if (pressStartRef.current !== null) {
+      pressesRef.current.push({ down: pressStartRef.current, up: BASELINE_SECONDS * 1000 })
+      pressStartRef.current = null
+    }
+
+    const baseline = analyzeBaseline(pressesRef.current)
+    if (baseline) saveBaseline(baseline)
+    setResult(baseline)
+    setIsPressed(false)
+    setStep('result')
+  }, [now])
+
+  const startMeasuring = () => {
+    const startedAt = Date.now()
+    startedAtRef.current = startedAt
+    pressesRef.current = []
+    pressStartRef.current = null
+    setBreathCount(0)
+    setResult(null)
+    setNow(startedAt)
+    setStep('measuring')
+  }
+
+  const suggested = result ? getStartingPattern(result) : null
+
+  return (
+    <div className="min-h-screen bg-background overflow-y-auto">
+      {/* Header */}
+      <motion.div
+        className="flex items-center justify-between pt-16 pb-6 px-6"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+          {step === 'measuring' ? <X className="w-5 h-5" /> : <ArrowLeft className="w-5 h-5" />}
+        </Button>
+
+        <div className="text-center">
+          <h1 className="text-xl">Natural Rhythm</h1>
+          <p className="text-sm text-white/60">Measure how you breathe at rest</p>
+        </div>
+
+        <div className="w-9" /> {/* Spacer */}
+      </motion.div>
+
+      <div className="px-6 space-y-6 pb-32">
+        {step === 'intro' && (
+          <>
+            <Card className="p-6 glass-card border-white/20 space-y-4">
+              <div className="flex items-center space-x-2">
+                <Gauge className="w-5 h-5 text-blue-400" />
+                <h3 className="font-medium text-lg">How it works</h3>
+              </div>
+              <p className="text-sm text-white/70 leading-relaxed">
+                For one minute, press and hold while you breathe in, and let go as you breathe out.
+                Hold the circle or the spacebar.
+              </p>
+              <p className="text-sm text-white/70 leading-relaxed">
+                Don't try to breathe any particular way. Just follow your normal breath.
+              </p>
+            </Card>
+
+            <Button
+              onClick={startMeasuring}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700 aora-glow"
+            >
+              Start Measuring
+            </Button>
+          </>
+        )}
+
+        {step === 'measuring' && (
+          <div className="flex flex-col items-center space-y-8 pt-8">
+            <p className="text-4xl font-light tabular-nums">{Math.ceil(remaining)}s</p>
+
+            <div
+              className="cursor-pointer select-none"
+              style={{ touchAction: 'none' }}
+              onPointerDown={pressDown}
+              onPointerUp={pressUp}
+              onPointerLeave={pressUp}
+              onPointerCancel={pressUp}
+            >
+              <BreathingOrb size="xl" isActive phase={isPressed ? 'inhale' : 'exhale'} />
+            </div>
+
+            <div className="text-center">
+              <h2 className="text-2xl tracking-wide mb-2">{isPressed ? 'Breathing in' : 'Breathing out'}</h2>
+              <p className="text-white/60 tabular-nums">
+                {breathCount} {breathCount === 1 ? 'breath' : 'breaths'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === 'result' && (
+          <>
+            {result ? (
+              <Card className="p-6 glass-card border-white/20">
+                <div className="grid grid-cols-2 gap-6 text-center">
+                  <div>
+                    <p className="text-4xl font-light tabular-nums">{result.rate}</p>
+                    <p className="text-xs text-white/60 uppercase tracking-wide">Breaths/min</p>
+                  </div>
+                  <div>
+                    <p className="text-4xl font-light tabular-nums">1 : {result.ratio}</p>
+                    <p className="text-xs text-white/60 uppercase tracking-wide">In : Out</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-light tabular-nums">{result.inhale}s / {result.exhale}s</p>
+                    <p className="text-xs text-white/60 uppercase tracking-wide">Avg In / Out</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-light tabular-nums">{result.variability}%</p>
+                    <p className="text-xs text-white/60 uppercase tracking-wide">Variability</p>
+                  </div>
+                </div>
+              </Card>
+            ) : (
+              <Card className="p-6 glass-card border-white/20 text-center">
+                <p className="text-white/70">
+                  We need a few more breaths to measure your rhythm. Try again and press on every inhale.
+                </p>
+              </Card>
+            )}
+
+            {suggested && (
+              <Card className="p-6 bg-white/[0.02] border-white/10">
+                <h3 className="text-lg mb-1">Suggested Starting Pattern</h3>
+                <p className="text-sm text-white/60 mb-4">A little slower than your natural rhythm, with a longer exhale</p>
+                <p className="text-sm text-muted-foreground font-mono mb-4">{formatPattern(suggested)}</p>
+                <Button
+                  onClick={() => onUsePattern(suggested)}
+                  className="w-full h-12 rounded-xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700"
+                >
+                  Use This Pattern
+                </Button>
+              </Card>
+            )}
+
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={startMeasuring}
+                className="flex-1 h-12 rounded-xl border-white/20 hover:bg-white/5"
+              >
+                Measure Again
+              </Button>
+              <Button
+                variant="outline"
+                onClick={onBack}
+                className="flex-1 h-12 rounded-xl border-white/20 hover:bg-white/5"
+              >
+                Done
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+// Breath pattern model for AORA
+//
+// A pattern is an ordered list of typed phases, so techniques like the
+// physiological sigh (inhale, top-up inhale, long exhale) can be expressed.
+
+// 'retention' is an open-ended hold on empty lungs that the breather ends
+// themselves; its duration is only a guide
+export type PhaseType = 'inhale' | 'top-up' | 'hold-full' | 'exhale' | 'hold-empty' | 'retention'
+
+export interface PatternPhase {
+  type: PhaseType
+  duration: number
+  label?: string
+}
+
+// A gradual change applied every `every` cycles until `limit` is reached:
+// 'phase' stretches one phase by `step` seconds, 'rate' shifts breaths per minute by `step`
+export type ProgressionRule =
+  | { kind: 'phase', phaseIndex: number, step: number, every: number, limit: number }
+  | { kind: 'rate', step: number, every: number, limit: number }
+
+// What the progression editor lets a rule be set to; shared links are held to the same
+export const progressionRanges = {
+  step: { min: -2, max: 2 },
+  every: { min: 1, max: 10 },
+  limit: { phase: { min: 0.5, max: 30 }, rate: { min: 2, max: 20 } }
+}
+
+export interface BreathPattern {
+  phases: PatternPhase[]
+  progression?: ProgressionRule[]
+}
+
+// Original fixed four-field shape, still found in older saved data
+export interface LegacyBreathPattern {
+  inhale: number
+  hold: number
+  exhale: number
+  pause: number
+}
+
+export type LegacyPhase = keyof LegacyBreathPattern
+
+// Phase types a timed pattern can be built from
+export const PHASE_TYPES: PhaseType[] = ['inhale', 'top-up', 'hold-full', 'exhale', 'hold-empty']
+
+export const phaseLabels: Record<PhaseType, string> = {
+  'inhale': 'Breathe In',
+  'top-up': 'Top Up',
+  'hold-full': 'Hold',
+  'exhale': 'Breathe Out',
+  'hold-empty': 'Pause',
+  'retention': 'Retention'
+}
+
+export const phaseShortLabels: Record<PhaseType, string> = {
+  'inhale': 'In',
+  'top-up': 'Top-up',
+  'hold-full': 'Hold',
+  'exhale': 'Out',
+  'hold-empty': 'Pause',
+  'retention': 'Retain'
+}
+
+// Phase fills for charts and pattern cards, matching the phase dot colors used across the app
+export const phaseChartColors: Record<PhaseType, string> = {
+  'inhale': '#60a5fa',
+  'top-up': 'rgba(96, 165, 250, 0.6)',
+  'hold-full': 'rgba(255, 255, 255, 0.4)',
+  'exhale': '#fbbf24',
+  'hold-empty': '#a78bfa',
+  'retention': '#7c3aed'
+}
+
+const legacyPhaseTypes: Record<LegacyPhase, PhaseType> = {
+  inhale: 'inhale',
+  hold: 'hold-full',
+  exhale: 'exhale',
+  pause: 'hold-empty'
+}
+
+export function isLegacyPattern(pattern: unknown): pattern is LegacyBreathPattern {
+  return !!pattern && typeof pattern === 'object' && !Array.isArray((pattern as BreathPattern).phases) &&
+    typeof (pattern as LegacyBreathPattern).inhale === 'number'
+}
+
+// Map a phase name from the four-field model (or a current phase type) to a phase type
+export function toPhaseType(phase: PhaseType | LegacyPhase): PhaseType {
+  return phase in legacyPhaseTypes ? legacyPhaseTypes[phase as LegacyPhase] : phase as PhaseType
+}
+
+// Accept either pattern shape and always return the phase-list model
+export function normalizePattern(pattern: BreathPattern | LegacyBreathPattern): BreathPattern {
+  if (!isLegacyPattern(pattern)) {
+    return pattern
+  }
+
+  const order: LegacyPhase[] = ['inhale', 'hold', 'exhale', 'pause']
+  return {
+    phases: order
+      .filter(phase => pattern[phase] > 0)
+      .map(phase => ({ type: legacyPhaseTypes[phase], duration: pattern[phase] }))
+  }
+}
+
+export function getPhaseLabel(phase: PatternPhase): string {
+  return phase.label?.trim() || phaseLabels[phase.type]
+}
+
+export function getCycleDuration(pattern: BreathPattern): number {
+  return pattern.phases.reduce((total, phase) => total + Math.max(0, phase.duration), 0)
+}
+
+// Compact one-line summary, e.g. "In 4 • Hold 7 • Out 8"
+export function formatPattern(pattern: BreathPattern): string {
+  return pattern.phases
+    .map(phase => `${phase.label?.trim() || phaseShortLabels[phase.type]} ${phase.duration}`)
+    .join(' • ')
+}
+
+// Whether a phase expands (inhale side) or empties (exhale side) the lungs
+export function isInhalePhase(type: PhaseType): boolean {
+  return type === 'inhale' || type === 'top-up'
+}
+
+// Whether a phase lasts until the breather ends it rather than for its duration
+export function isOpenPhase(type: PhaseType): boolean {
+  return type === 'retention'
+}
+
+export function getBreathsPerMinute(pattern: BreathPattern): number {
+  const cycleDuration = getCycleDuration(pattern)
+  return cycleDuration > 0 ? 60 / cycleDuration : 0
+}
+
+const roundTenth = (value: number) => Math.round(value * 10) / 10
+
+// Move `steps` steps from `start` towards `limit`, never past it
+const stepTowards = (start: number, step: number, steps: number, limit: number) => {
+  const value = start + step * steps
+  return step >= 0 ? Math.min(value, Math.max(limit, start)) : Math.max(value, Math.min(limit, start))
+}
+
+// The pattern as it should be breathed during `cycle` (0-based) of a session
+export function getEffectivePattern(pattern: BreathPattern, cycle: number): BreathPattern {
+  if (!pattern.progression?.length) return pattern
+
+  let phases = pattern.phases
+  for (const rule of pattern.progression) {
+    const steps = Math.floor(Math.max(0, cycle) / Math.max(1, rule.every))
+    if (steps === 0) continue
+
+    if (rule.kind === 'phase') {
+      phases = phases.map((phase, index) => index !== rule.phaseIndex ? phase : {
+        ...phase,
+        duration: Math.max(0.5, roundTenth(stepTowards(phase.duration, rule.step, steps, rule.limit)))
+      })
+    } else {
+      const rate = getBreathsPerMinute({ phases })
+      if (rate <= 0) continue
+
+      const scale = rate / Math.max(0.5, stepTowards(rate, rule.step, steps, rule.limit))
+      phases = phases.map(phase => ({ ...phase, duration: roundTenth(phase.duration * scale) }))
+    }
+  }
+
+  return { phases }
+}
+
+export function isSamePattern(a: BreathPattern, b: BreathPattern): boolean {
+  return a.phases.length === b.phases.length &&
+    a.phases.every((phase, i) => phase.type === b.phases[i].type && phase.duration === b.phases[i].duration)
+}
+
+// Total seconds for `cycles` cycles, following any progression
+export function getSessionDuration(pattern: BreathPattern, cycles: number): number {
+  if (!pattern.progression?.length) return getCycleDuration(pattern) * cycles
+
+  let total = 0
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    total += getCycleDuration(getEffectivePattern(pattern, cycle))
+  }
+  return total
+}
+
+// Whole cycles needed to fill `seconds`, following any progression
+export function getCyclesForDuration(pattern: BreathPattern, seconds: number): number {
+  if (!pattern.progression?.length) {
+    return Math.max(1, Math.ceil(seconds / Math.max(getCycleDuration(pattern), 1)))
+  }
+
+  let total = 0
+  let cycles = 0
+  while (total < seconds && cycles < 10000) {
+    total += Math.max(getCycleDuration(getEffectivePattern(pattern, cycles)), 1)
+    cycles++
+  }
+  return Math.max(1, cycles)
+}
+
+// e.g. "Breathe Out +0.5s every 3 cycles, up to 10s"
+export function describeProgression(rule: ProgressionRule, pattern: BreathPattern): string {
+  const sign = rule.step >= 0 ? '+' : '−'
+  const every = rule.every === 1 ? 'every cycle' : `every ${rule.every} cycles`
+  const direction = rule.step >= 0 ? 'up' : 'down'
+
+  if (rule.kind === 'rate') {
+    return `Breathing rate ${sign}${Math.abs(rule.step)} bpm ${every}, ${direction} to ${rule.limit} bpm`
+  }
+
+  const phase = pattern.phases[rule.phaseIndex]
+  const name = phase ? getPhaseLabel(phase) : 'Phase'
+  return `${name} ${sign}${Math.abs(rule.step)}s ${every}, ${direction} to ${rule.limit}s`
+}
@@ -0,0 +1,228 @@
+// Clock-based breath scheduler for AORA
+//
+// Phase, progress and cycle are always derived from a monotonic clock instead
+// of chained timers, so long sessions never drift and phases can't double-fire.
+
+import { BreathPattern, PhaseType, getCycleDuration, getEffectivePattern, getPhaseLabel, isSamePattern } from './BreathPattern'
+
+export interface BreathState {
+  phase: PhaseType
+  label: string
+  phaseIndex: number
+  phaseDuration: number
+  phaseElapsed: number
+  phaseRemaining: number
+  phaseProgress: number
+  cycle: number
+  cycleProgress: number
+  elapsed: number
+}
+
+export interface SchedulerPosition {
+  elapsed: number
+  cycle: number
+  cycleTime: number
+}
+
+// Resolve the breath state `elapsed` seconds into a pattern
+export function getBreathState(pattern: BreathPattern, elapsed: number, cycleOffset = 0): BreathState {
+  const cycleDuration = getCycleDuration(pattern)
+  const time = Math.max(0, elapsed)
+
+  if (cycleDuration <= 0) {
+    return {
+      phase: 'inhale',
+      label: getPhaseLabel({ type: 'inhale', duration: 0 }),
+      phaseIndex: 0,
+      phaseDuration: 0,
+      phaseElapsed: 0,
+      phaseRemaining: 0,
+      phaseProgress: 0,
+      cycle: cycleOffset,
+      cycleProgress: 0,
+      elapsed: time
+    }
+  }
+
+  const cycle = Math.floor(time / cycleDuration)
+  const cycleTime = time - cycle * cycleDuration
+
+  let phaseStart = 0
+  let phaseIndex = pattern.phases.findIndex(phase => phase.duration > 0)
+
+  for (let i = 0; i < pattern.phases.length; i++) {
+    const duration = Math.max(0, pattern.phases[i].duration)
+    if (duration === 0) continue
+
+    phaseIndex = i
+    if (cycleTime < phaseStart + duration) break
+    phaseStart += duration
+  }
+
+  const phase = pattern.phases[phaseIndex]
+  const phaseDuration = phase.duration
+  const phaseElapsed = Math.min(phaseDuration, cycleTime - phaseStart)
+
+  return {
+    phase: phase.type,
+    label: getPhaseLabel(phase),
+    phaseIndex,
+    phaseDuration,
+    phaseElapsed,
+    phaseRemaining: Math.max(0, phaseDuration - phaseElapsed),
+    phaseProgress: phaseDuration > 0 ? phaseElapsed / phaseDuration : 0,
+    cycle: cycleOffset + cycle,
+    cycleProgress: cycleTime / cycleDuration,
+    elapsed: time
+  }
+}
+
+// Seconds into the cycle for the phase at `phaseIndex` with `phaseRemaining` seconds left
+export function getCycleTime(pattern: BreathPattern, phaseIndex: number, phaseRemaining: number): number {
+  const index = Math.min(Math.max(0, phaseIndex), pattern.phases.length - 1)
+  const phaseStart = pattern.phases
+    .slice(0, index)
+    .reduce((total, previous) => total + Math.max(0, previous.duration), 0)
+  const phaseDuration = Math.max(0, pattern.phases[index]?.duration ?? 0)
+  const phaseElapsed = phaseDuration - Math.min(phaseDuration, Math.max(0, phaseRemaining))
+
+  return Math.min(phaseStart + phaseElapsed, Math.max(0, getCycleDuration(pattern) - 0.001))
+}
+
+// How full the lungs are (0-1) at a given state, useful for smooth visuals
+export function getBreathLevel(state: BreathState): number {
+  switch (state.phase) {
+    case 'inhale':
+      return state.phaseProgress
+    case 'top-up':
+    case 'hold-full':
+      return 1
+    case 'exhale':
+      return 1 - state.phaseProgress
+    case 'hold-empty':
+    case 'retention':
+      return 0
+  }
+}
+
+export class BreathScheduler {
+  // The pattern as given (possibly with progression rules) and the one currently breathed
+  private basePattern: BreathPattern
+  private pattern: BreathPattern
+  private now: () => number
+  private startedAt: number | null = null
+  private pausedAt: number | null = null
+  private pausedTotal = 0
+  private anchorElapsed = 0
+  private anchorCycles = 0
+  private progressionChecked = 0
+  // Cycle the current pattern's progression counts from
+  private progressionOrigin = 0
+
+  constructor(pattern: BreathPattern, now: () => number = () => performance.now()) {
+    this.basePattern = pattern
+    this.pattern = getEffectivePattern(pattern, 0)
+    this.now = now
+  }
+
+  get isRunning(): boolean {
+    return this.startedAt !== null && this.pausedAt === null
+  }
+
+  start(): void {
+    this.startedAt = this.now()
+    this.pausedAt = null
+    this.pausedTotal = 0
+    this.anchorElapsed = 0
+    this.anchorCycles = 0
+    this.pattern = getEffectivePattern(this.basePattern, 0)
+    this.progressionChecked = 0
+    this.progressionOrigin = 0
+  }
+
+  // Start as if `elapsed` active seconds have already passed, mid-way through a cycle
+  startFrom({ elapsed, cycle, cycleTime }: SchedulerPosition): void {
+    this.start()
+    this.startedAt = this.now() - elapsed * 1000
+    this.anchorElapsed = elapsed - cycleTime
+    this.anchorCycles = cycle
+    this.pattern = getEffectivePattern(this.basePattern, cycle)
+    this.progressionChecked = cycle
+  }
+
+  // `at` may lie in the past, e.g. when reconciling time spent in a hidden tab
+  pause(at = this.now()): void {
+    if (!this.isRunning || this.startedAt === null) return
+    this.pausedAt = Math.min(this.now(), Math.max(this.startedAt + this.pausedTotal, at))
+  }
+
+  resume(): void {
+    if (this.startedAt === null) {
+      this.start()
+      return
+    }
+    if (this.pausedAt === null) return
+
+    this.pausedTotal += this.now() - this.pausedAt
+    this.pausedAt = null
+  }
+
+  // Swap patterns without losing the cycle count; the new pattern starts a fresh
+  // cycle and its progression starts from the beginning
+  setPattern(pattern: BreathPattern): void {
+    this.anchorCycles = this.getState().cycle
+    this.anchorElapsed = this.getElapsed()
+    this.basePattern = pattern
+    this.pattern = getEffectivePattern(pattern, 0)
+    this.progressionChecked = this.anchorCycles
+    this.progressionOrigin = this.anchorCycles
+  }
+
+  // The effective pattern for the current cycle
+  getPattern(): BreathPattern {
+    return this.pattern
+  }
+
+  getBasePattern(): BreathPattern {
+    return this.basePattern
+  }
+
+  // Active (unpaused) seconds since start
+  getElapsed(): number {
+    if (this.startedAt === null) return 0
+
+    const reference = this.pausedAt ?? this.now()
+    return Math.max(0, (reference - this.startedAt - this.pausedTotal) / 1000)
+  }
+
+  getState(): BreathState {
+    const elapsed = this.getElapsed()
+    this.applyProgression(elapsed)
+    const state = getBreathState(this.pattern, elapsed - this.anchorElapsed, this.anchorCycles)
+    return { ...state, elapsed }
+  }
+
+  // Progression steps take effect at the exact start of the cycle they belong to,
+  // even if several cycles passed since the last call
+  private applyProgression(elapsed: number): void {
+    if (!this.basePattern.progression?.length) return
+
+    for (let guard = 0; guard < 1000; guard++) {
+      const { cycle } = getBreathState(this.pattern, elapsed - this.anchorElapsed, this.anchorCycles)
+      let change = -1
+      for (let next = Math.max(this.anchorCycles, this.progressionChecked) + 1; next <= cycle; next++) {
+        if (!isSamePattern(getEffectivePattern(this.basePattern, next - this.progressionOrigin), this.pattern)) {
+          change = next
+          break
+        }
+        this.progressionChecked = next
+      }
+      if (change < 0) return
+
+      this.anchorElapsed += (change - this.anchorCycles) * getCycleDuration(this.pattern)
+      this.anchorCycles = change
+      this.pattern = getEffectivePattern(this.basePattern, change - this.progressionOrigin)
+      this.progressionChecked = change
+    }
+  }
+}
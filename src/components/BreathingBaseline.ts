@@ -0,0 +1,82 @@
+// Resting breathing baseline for AORA
+//
+// The user presses on each inhale and releases on each exhale for a minute.
+// From the presses we work out their natural rate, inhale:exhale ratio and
+// how regular the rhythm is, and suggest a pattern to start practice from.
+
+import { BreathPattern } from './BreathPattern'
+
+// One inhale, in milliseconds from the start of the measurement
+export interface BreathPress {
+  down: number
+  up: number
+}
+
+export interface BaselineResult {
+  date: string
+  rate: number
+  inhale: number
+  exhale: number
+  // Exhale length as a multiple of the inhale
+  ratio: number
+  // Coefficient of variation of breath length, in percent
+  variability: number
+  breaths: number
+}
+
+export const BASELINE_SECONDS = 60
+
+// Fewer full breaths than this can't give a meaningful rate
+export const MIN_BREATHS = 3
+
+const round = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(2))
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+// A breath runs from one press to the next, so the last press only closes the one before it
+export function analyzeBaseline(presses: BreathPress[]): BaselineResult | null {
+  if (presses.length < MIN_BREATHS + 1) return null
+
+  const breaths = presses.slice(0, -1).map((press, index) => ({
+    inhale: (press.up - press.down) / 1000,
+    exhale: (presses[index + 1].down - press.up) / 1000
+  }))
+  const lengths = breaths.map(breath => breath.inhale + breath.exhale)
+  const mean = average(lengths)
+  const deviation = Math.sqrt(average(lengths.map(length => (length - mean) ** 2)))
+  const inhale = average(breaths.map(breath => breath.inhale))
+  const exhale = average(breaths.map(breath => breath.exhale))
+
+  return {
+    date: new Date().toISOString(),
+    rate: round(60 / mean, 0.1),
+    inhale: round(inhale, 0.1),
+    exhale: round(exhale, 0.1),
+    ratio: inhale > 0 ? round(exhale / inhale, 0.1) : 0,
+    variability: Math.round((deviation / mean) * 100),
+    breaths: breaths.length
+  }
+}
+
+// Start a little slower than the natural rhythm, with the exhale at least as long as the inhale
+export function getStartingPattern(baseline: BaselineResult): BreathPattern {
+  const cycle = Math.min(12, Math.max(4, (60 / baseline.rate) * 1.25))
+  const exhaleShare = Math.max(0.55, baseline.ratio / (1 + baseline.ratio))
+  const inhale = Math.max(1, round(cycle * (1 - exhaleShare), 0.5))
+  const exhale = Math.max(1, round(cycle * exhaleShare, 0.5))
+
+  return { phases: [{ type: 'inhale', duration: inhale }, { type: 'exhale', duration: exhale }] }
+}
+
+export function loadBaselines(): BaselineResult[] {
+  try {
+    const stored = localStorage.getItem('aora-baselines')
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error('Error parsing baselines:', error)
+  }
+  return []
+}
+
+export function saveBaseline(result: BaselineResult): void {
+  localStorage.setItem('aora-baselines', JSON.stringify([...loadBaselines(), result]))
+}
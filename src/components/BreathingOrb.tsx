@@ -1,16 +1,17 @@
 import { motion } from 'motion/react'
 import { useEffect, useState } from 'react'
+import { PhaseType, isInhalePhase } from './BreathPattern'
 
 interface BreathingOrbProps {
   isActive?: boolean
-  phase?: 'inhale' | 'hold' | 'exhale' | 'pause'
+  phase?: PhaseType
   size?: 'sm' | 'md' | 'lg' | 'xl'
   className?: string
 }
 
 export function BreathingOrb({ 
   isActive = false, 
-  phase = 'pause', 
+  phase = 'hold-empty', 
   size = 'lg',
   className = '' 
 }: BreathingOrbProps) {
@@ -23,32 +24,38 @@ export function BreathingOrb({
     xl: 'w-48 h-48'
   }
 
-  const scaleValues = {
-    inhale: 1.3,
-    hold: 1.3,
-    exhale: 0.8,
-    pause: 1
+  const scaleValues: Record<PhaseType, number> = {
+    'inhale': 1.3,
+    'top-up': 1.4,
+    'hold-full': 1.3,
+    'exhale': 0.8,
+    'hold-empty': 1,
+    'retention': 0.9
   }
 
-  const opacityValues = {
-    inhale: 1,
-    hold: 0.9,
-    exhale: 0.6,
-    pause: 0.7
+  const opacityValues: Record<PhaseType, number> = {
+    'inhale': 1,
+    'top-up': 1,
+    'hold-full': 0.9,
+    'exhale': 0.6,
+    'hold-empty': 0.7,
+    'retention': 0.6
   }
 
   useEffect(() => {
     switch (phase) {
       case 'inhale':
+      case 'top-up':
         setGradient('from-blue-400 via-blue-500 to-white')
         break
-      case 'hold':
+      case 'hold-full':
         setGradient('from-white via-blue-300 to-blue-400')
         break
       case 'exhale':
         setGradient('from-amber-300 via-amber-400 to-orange-400')
         break
-      case 'pause':
+      case 'hold-empty':
+      case 'retention':
         setGradient('from-violet-500 via-blue-500 to-blue-600')
         break
     }
@@ -60,7 +67,7 @@ export function BreathingOrb({
       <motion.div
         className="absolute inset-0 rounded-full blur-2xl"
         style={{
-          background: phase === 'inhale' ? 
+          background: isInhalePhase(phase) ? 
             'radial-gradient(circle, rgba(46, 58, 240, 0.5) 0%, rgba(116, 99, 255, 0.3) 40%, transparent 70%)' :
             phase === 'exhale' ?
             'radial-gradient(circle, rgba(230, 199, 124, 0.5) 0%, rgba(255, 165, 0, 0.3) 40%, transparent 70%)' :
@@ -80,7 +87,7 @@ export function BreathingOrb({
       <motion.div
         className="absolute inset-0 rounded-full blur-xl"
         style={{
-          background: phase === 'inhale' ? 
+          background: isInhalePhase(phase) ? 
             'radial-gradient(circle, rgba(46, 58, 240, 0.3) 0%, transparent 60%)' :
             phase === 'exhale' ?
             'radial-gradient(circle, rgba(230, 199, 124, 0.3) 0%, transparent 60%)' :
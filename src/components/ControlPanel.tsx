@@ -1,25 +1,101 @@
 import { useState, useEffect } from 'react'
 import { motion } from 'motion/react'
-import { ArrowLeft, Play, Save } from 'lucide-react'
+import { ArrowLeft, ChevronDown, ChevronUp, Gauge, Link2, Play, Plus, Save, Trash2 } from 'lucide-react'
 import { Button } from './ui/button'
 import { CustomSlider } from './CustomSlider'
 import { BreathingOrb } from './BreathingOrb'
 import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { toast } from 'sonner@2.0.3'
+import {
+  BreathPattern,
+  PatternPhase,
+  PhaseType,
+  PHASE_TYPES,
+  ProgressionRule,
+  getCycleDuration,
+  getCyclesForDuration,
+  getPhaseLabel,
+  formatPattern,
+  getSessionDuration,
+  isInhalePhase,
+  isSamePattern
+} from './BreathPattern'
+import { useBreathScheduler } from './useBreathScheduler'
+import { hapticsEngine, getHapticSettings } from './HapticsEngine'
+import { ProgressionEditor } from './ProgressionEditor'
+import { getStartingPattern, loadBaselines } from './BreathingBaseline'
+import { ExerciseDetails, ExerciseDetailsEditor, getUniqueName, isNameTaken } from './ExerciseDetailsEditor'
+import { defaultExercises } from './UpdatedExerciseLibrary'
+import { copyShareLink } from './PatternShare'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
 
-interface BreathPattern {
-  inhale: number
-  hold: number
-  exhale: number
-  pause: number
+const MAX_PHASES = 8
+
+// Editor settings per phase type
+const phaseSettings: Record<PhaseType, { name: string, max: number, color: string }> = {
+  'inhale': { name: 'Inhale', max: 12, color: 'from-blue-400 to-blue-600' },
+  'top-up': { name: 'Top-up Inhale', max: 5, color: 'from-cyan-500 to-blue-600' },
+  'hold-full': { name: 'Hold (full)', max: 15, color: 'from-white to-blue-300' },
+  'exhale': { name: 'Exhale', max: 15, color: 'from-amber-400 to-orange-500' },
+  'hold-empty': { name: 'Hold (empty)', max: 10, color: 'from-violet-400 to-purple-600' },
+  'retention': { name: 'Retention', max: 180, color: 'from-violet-400 to-purple-600' }
+}
+
+const defaultDetails: ExerciseDetails = {
+  name: '',
+  tag: 'Custom',
+  description: '',
+  color: 'from-indigo-500 to-purple-600'
+}
+
+const defaultPattern: BreathPattern = {
+  phases: [
+    { type: 'inhale', duration: 4 },
+    { type: 'hold-full', duration: 4 },
+    { type: 'exhale', duration: 4 },
+    { type: 'hold-empty', duration: 4 }
+  ]
+}
+
+interface SessionTarget {
+  type: 'cycles' | 'minutes'
+  value: number
+}
+
+interface EditableExercise extends ExerciseDetails {
+  id: string
+  pattern: BreathPattern
 }
 
 interface ControlPanelProps {
   onBack: () => void
-  onStartSession: (pattern: BreathPattern, name?: string) => void
+  onStartSession: (pattern: BreathPattern, name?: string, target?: SessionTarget) => void
   onSavePreset?: (pattern: BreathPattern, name: string) => void
   initialPattern?: BreathPattern
   presetName?: string
+  // A custom exercise to edit and save back in place
+  editExercise?: EditableExercise
+  onMeasureBaseline?: () => void
+}
+
+// Built-in and custom exercises, for checking that names stay unique
+const loadLibraryExercises = (): { id: string, name: string }[] => {
+  try {
+    return [...defaultExercises, ...JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]')]
+  } catch (error) {
+    console.error('Error parsing custom exercises:', error)
+    return defaultExercises
+  }
 }
 
 export function ControlPanel({ 
@@ -27,68 +103,161 @@ export function ControlPanel({
   onStartSession, 
   onSavePreset,
   initialPattern,
-  presetName
+  presetName,
+  editExercise,
+  onMeasureBaseline
 }: ControlPanelProps) {
   const [pattern, setPattern] = useState<BreathPattern>(
-    initialPattern || { inhale: 4, hold: 4, exhale: 4, pause: 4 }
+    editExercise?.pattern || initialPattern || defaultPattern
   )
-  const [customName, setCustomName] = useState('')
-  const [currentPhase, setCurrentPhase] = useState<'inhale' | 'hold' | 'exhale' | 'pause'>('inhale')
+  const [details, setDetails] = useState<ExerciseDetails>(() => editExercise ? {
+    name: editExercise.name,
+    tag: editExercise.tag,
+    description: editExercise.description,
+    color: editExercise.color,
+    icon: editExercise.icon
+  } : defaultDetails)
+  // A name already in the library, and the free one offered instead
+  const [libraryExercises, setLibraryExercises] = useState(loadLibraryExercises)
+  const [nameConflict, setNameConflict] = useState<{ name: string, suggestion: string } | null>(null)
+  const [baseline] = useState(() => loadBaselines().slice(-1)[0] ?? null)
   const [isPreviewActive, setIsPreviewActive] = useState(false)
+  const [target, setTarget] = useState<SessionTarget>(() => {
+    const stored = localStorage.getItem('aora-session-target')
+    if (stored) {
+      try {
+        return JSON.parse(stored)
+      } catch (error) {
+        console.error('Error parsing session target:', error)
+      }
+    }
+    return { type: 'cycles', value: 10 }
+  })
 
   // Live preview animation
+  const { state: preview, scheduler: previewScheduler } = useBreathScheduler(pattern, isPreviewActive)
+  const currentPhase = preview.phase
+
+  // Let the preview be felt as well as seen
   useEffect(() => {
-    if (!isPreviewActive) return
+    if (!isPreviewActive || !getHapticSettings().enabled) return
 
-    const totalDuration = (pattern.inhale + pattern.hold + pattern.exhale + pattern.pause) * 1000
-    let timeouts: NodeJS.Timeout[] = []
+    hapticsEngine.follow(previewScheduler)
+    return () => hapticsEngine.stop()
+  }, [isPreviewActive, previewScheduler])
 
-    const runCycle = () => {
-      setCurrentPhase('inhale')
-      
-      timeouts.push(setTimeout(() => setCurrentPhase('hold'), pattern.inhale * 1000))
-      timeouts.push(setTimeout(() => setCurrentPhase('exhale'), (pattern.inhale + pattern.hold) * 1000))
-      timeouts.push(setTimeout(() => setCurrentPhase('pause'), (pattern.inhale + pattern.hold + pattern.exhale) * 1000))
+  const togglePreview = () => {
+    if (!isPreviewActive) {
+      // Always preview from the top of the cycle
+      previewScheduler.start()
     }
+    setIsPreviewActive(!isPreviewActive)
+  }
 
-    runCycle()
-    const interval = setInterval(runCycle, totalDuration)
+  const updateTarget = (next: SessionTarget) => {
+    setTarget(next)
+    localStorage.setItem('aora-session-target', JSON.stringify(next))
+  }
 
-    return () => {
-      clearInterval(interval)
-      timeouts.forEach(clearTimeout)
-    }
-  }, [pattern, isPreviewActive])
+  const handleStartSession = () => {
+    onStartSession(pattern, details.name.trim() || presetName, target)
+  }
 
-  const updatePattern = (key: keyof BreathPattern, value: number) => {
-    setPattern(prev => ({ ...prev, [key]: value }))
+  const updatePhase = (index: number, changes: Partial<PatternPhase>) => {
+    setPattern(prev => ({
+      ...prev,
+      phases: prev.phases.map((phase, i) => {
+        if (i !== index) return phase
+        const next = { ...phase, ...changes }
+        return { ...next, duration: Math.min(next.duration, phaseSettings[next.type].max) }
+      })
+    }))
   }
 
-  const handleSavePreset = () => {
-    const name = customName.trim() || `Custom ${Date.now()}`
-    
-    // Create new custom exercise
-    const newExercise = {
-      id: `custom-${Date.now()}`,
+  const addPhase = () => {
+    if (pattern.phases.length >= MAX_PHASES) return
+    setPattern(prev => ({ ...prev, phases: [...prev.phases, { type: 'exhale', duration: 4 }] }))
+  }
+
+  // Keep progression rules pointing at the same phases as phases are removed or moved
+  const remapProgression = (progression: ProgressionRule[] | undefined, mapIndex: (index: number) => number) =>
+    progression
+      ?.map(rule => rule.kind === 'phase' ? { ...rule, phaseIndex: mapIndex(rule.phaseIndex) } : rule)
+      .filter(rule => rule.kind !== 'phase' || rule.phaseIndex >= 0)
+
+  const removePhase = (index: number) => {
+    if (pattern.phases.length <= 1) return
+    setPattern(prev => ({
+      ...prev,
+      phases: prev.phases.filter((_, i) => i !== index),
+      progression: remapProgression(prev.progression, i => (i === index ? -1 : i > index ? i - 1 : i))
+    }))
+  }
+
+  const movePhase = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= pattern.phases.length) return
+
+    setPattern(prev => {
+      const phases = [...prev.phases]
+      ;[phases[index], phases[target]] = [phases[target], phases[index]]
+      return {
+        ...prev,
+        phases,
+        progression: remapProgression(prev.progression, i => (i === index ? target : i === target ? index : i))
+      }
+    })
+  }
+
+  const updateProgression = (progression: ProgressionRule[]) => {
+    setPattern(prev => ({ ...prev, progression: progression.length > 0 ? progression : undefined }))
+  }
+
+  const saveExercise = (name: string) => {
+    const exercise = {
+      ...(editExercise ?? { id: `custom-${Date.now()}`, isDefault: false }),
+      ...details,
       name,
-      tag: 'Custom',
-      description: 'Custom breathing pattern',
-      pattern,
-      color: 'from-indigo-500 to-purple-600',
-      isDefault: false
+      tag: details.tag.trim() || 'Custom',
+      description: details.description.trim() || 'Custom breathing pattern',
+      pattern
+    }
+
+    let existingCustomExercises: { id: string }[] = []
+    try {
+      existingCustomExercises = JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]')
+    } catch (error) {
+      console.error('Error parsing custom exercises:', error)
+    }
+
+    if (editExercise) {
+      // Replace the stored exercise under the same id so its place in the library is kept
+      const updatedCustomExercises = existingCustomExercises.map(existing =>
+        existing.id === editExercise.id ? exercise : existing
+      )
+      localStorage.setItem('aora-custom-exercises', JSON.stringify(updatedCustomExercises))
+
+      // Keep the active exercise in step if it's the one being edited
+      const storedActive = localStorage.getItem('aora-active-exercise')
+      if (storedActive) {
+        try {
+          if (JSON.parse(storedActive).id === editExercise.id) {
+            localStorage.setItem('aora-active-exercise', JSON.stringify(exercise))
+          }
+        } catch (error) {
+          console.error('Error parsing active exercise:', error)
+        }
+      }
+    } else {
+      localStorage.setItem('aora-custom-exercises', JSON.stringify([...existingCustomExercises, exercise]))
     }
-    
-    // Save to localStorage
-    const existingCustomExercises = JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]')
-    const updatedCustomExercises = [...existingCustomExercises, newExercise]
-    localStorage.setItem('aora-custom-exercises', JSON.stringify(updatedCustomExercises))
-    
+
     // Dispatch custom event to refresh exercise library
     window.dispatchEvent(new CustomEvent('aora-refresh-exercises'))
-    
-    // Show success toast
-    toast.success(`Saved "${name}" to your library.`)
-    
+    setLibraryExercises(loadLibraryExercises())
+
+    toast.success(editExercise ? `Saved changes to "${name}".` : `Saved "${name}" to your library.`)
+
     // Call the save callback if provided, otherwise go back to library
     if (onSavePreset) {
       onSavePreset(pattern, name)
@@ -97,7 +266,31 @@ export function ControlPanel({
     }
   }
 
-  const totalCycleTime = pattern.inhale + pattern.hold + pattern.exhale + pattern.pause
+  // Names are unique across the library; a clash asks before saving under a free one
+  const handleSavePreset = () => {
+    const name = details.name.trim()
+
+    if (!name) {
+      saveExercise(getUniqueName('My Pattern', libraryExercises, editExercise?.id))
+      return
+    }
+    if (isNameTaken(name, libraryExercises, editExercise?.id)) {
+      setNameConflict({ name, suggestion: getUniqueName(name, libraryExercises, editExercise?.id) })
+      return
+    }
+    saveExercise(name)
+  }
+
+  // Shares the pattern as it is now, unsaved edits included
+  const handleCopyShareLink = () => {
+    copyShareLink({ ...details, name: details.name.trim() || presetName || 'Shared Pattern', pattern })
+      .then(() => toast.success('Share link copied.'))
+      .catch(() => toast.error("Couldn't copy the share link."))
+  }
+
+  const totalCycleTime = getCycleDuration(pattern)
+  const estimatedMinutes = Math.max(1, Math.round(getSessionDuration(pattern, target.value) / 60))
+  const estimatedCycles = getCyclesForDuration(pattern, target.value * 60)
 
   return (
     <div className="min-h-screen bg-background">
@@ -114,14 +307,16 @@ export function ControlPanel({
         
         <div className="text-center">
           <h1 className="text-xl">
-            {presetName || 'Custom Pattern'}
+            {editExercise ? 'Edit Exercise' : presetName || 'Custom Pattern'}
           </h1>
           <p className="text-sm text-white/60">
             {Math.round(totalCycleTime)}s cycle
           </p>
         </div>
         
-        <div className="w-9" /> {/* Spacer */}
+        <Button variant="ghost" size="sm" onClick={handleCopyShareLink} className="p-2" aria-label="Copy share link">
+          <Link2 className="w-5 h-5" />
+        </Button>
       </motion.div>
 
       {/* Live preview orb */}
@@ -150,12 +345,12 @@ export function ControlPanel({
               animate={{
                 scale: isPreviewActive ? [1, 1.05, 1] : 1,
                 background: isPreviewActive 
-                  ? `rgba(${currentPhase === 'inhale' ? '46, 58, 240' : currentPhase === 'exhale' ? '230, 199, 124' : '116, 99, 255'}, 0.1)`
+                  ? `rgba(${isInhalePhase(currentPhase) ? '46, 58, 240' : currentPhase === 'exhale' ? '230, 199, 124' : '116, 99, 255'}, 0.1)`
                   : 'rgba(255, 255, 255, 0.02)'
               }}
               transition={{ duration: 1.5 }}
             >
-              {isPreviewActive ? currentPhase : 'preview'}
+              {isPreviewActive ? preview.label : 'preview'}
             </motion.div>
           </motion.div>
         </div>
@@ -170,7 +365,7 @@ export function ControlPanel({
       >
         <Button
           variant={isPreviewActive ? "secondary" : "outline"}
-          onClick={() => setIsPreviewActive(!isPreviewActive)}
+          onClick={togglePreview}
           className="px-8 py-3 rounded-2xl glass-card glass-card-hover border-white/20 font-medium tracking-wide group"
         >
           <motion.span
@@ -192,122 +387,218 @@ export function ControlPanel({
         </Button>
       </motion.div>
 
+      {/* Starting point from the user's natural rhythm */}
+      {!presetName && (baseline || onMeasureBaseline) && (
+        <div className="px-6 pb-6">
+          <div className="p-4 rounded-xl border border-white/10 bg-white/[0.02]">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                <Gauge className="w-5 h-5 text-blue-400" />
+                <div className="min-w-0">
+                  <p className="text-sm text-white/80">
+                    {baseline ? `Your natural rhythm: ${baseline.rate} breaths/min` : 'Start from your natural rhythm'}
+                  </p>
+                  <p className="text-xs text-white/50 font-mono">
+                    {baseline ? formatPattern(getStartingPattern(baseline)) : 'A one-minute measurement'}
+                  </p>
+                </div>
+              </div>
+              {baseline ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPattern(getStartingPattern(baseline))}
+                  disabled={isSamePattern(pattern, getStartingPattern(baseline))}
+                  className="rounded-xl border-white/20 hover:bg-white/5"
+                >
+                  Use
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onMeasureBaseline}
+                  className="rounded-xl border-white/20 hover:bg-white/5"
+                >
+                  Measure
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Control sliders */}
       <div className="px-6 space-y-6">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3, duration: 0.6 }}
-        >
-          <CustomSlider
-            label="Inhale"
-            value={pattern.inhale}
-            onChange={(value) => updatePattern('inhale', value)}
-            min={1}
-            max={12}
-            step={0.5}
-            color="from-blue-400 to-blue-600"
-          />
-        </motion.div>
+        {pattern.phases.map((phase, index) => (
+          <motion.div
+            key={index}
+            className="space-y-3"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: Math.min(0.3 + index * 0.1, 0.6), duration: 0.6 }}
+          >
+            <CustomSlider
+              label={getPhaseLabel(phase)}
+              value={phase.duration}
+              onChange={(value) => updatePhase(index, { duration: value })}
+              min={0.5}
+              max={phaseSettings[phase.type].max}
+              step={0.5}
+              color={phaseSettings[phase.type].color}
+            />
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.4, duration: 0.6 }}
-        >
-          <CustomSlider
-            label="Hold"
-            value={pattern.hold}
-            onChange={(value) => updatePattern('hold', value)}
-            min={0}
-            max={15}
-            step={0.5}
-            color="from-white to-blue-300"
-          />
-        </motion.div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={phase.type}
+                onValueChange={(type: string) => updatePhase(index, { type: type as PhaseType })}
+              >
+                <SelectTrigger className="w-36 bg-white/5 border-white/10 rounded-xl text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHASE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {phaseSettings[type].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Input
+                placeholder="Custom label"
+                value={phase.label ?? ''}
+                onChange={(e) => updatePhase(index, { label: e.target.value || undefined })}
+                maxLength={20}
+                className="flex-1 bg-white/5 border-white/10 rounded-xl text-xs placeholder:text-white/30"
+              />
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => movePhase(index, -1)}
+                disabled={index === 0}
+                className="p-2"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => movePhase(index, 1)}
+                disabled={index === pattern.phases.length - 1}
+                className="p-2"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removePhase(index)}
+                disabled={pattern.phases.length <= 1}
+                className="p-2 text-white/60"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </motion.div>
+        ))}
+
+        {pattern.phases.length < MAX_PHASES && (
+          <Button
+            variant="outline"
+            onClick={addPhase}
+            className="w-full h-12 rounded-xl border-white/20 border-dashed hover:bg-white/5"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Phase
+          </Button>
+        )}
 
+        {/* Progression rules */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.5, duration: 0.6 }}
+          transition={{ delay: 0.6, duration: 0.6 }}
         >
-          <CustomSlider
-            label="Exhale"
-            value={pattern.exhale}
-            onChange={(value) => updatePattern('exhale', value)}
-            min={1}
-            max={15}
-            step={0.5}
-            color="from-amber-400 to-orange-500"
+          <ProgressionEditor
+            pattern={pattern}
+            cycles={target.type === 'cycles' ? target.value : estimatedCycles}
+            onChange={updateProgression}
           />
         </motion.div>
 
+        {/* Session length */}
         <motion.div
+          className="space-y-4"
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.6, duration: 0.6 }}
+          transition={{ delay: 0.65, duration: 0.6 }}
         >
-          <CustomSlider
-            label="Pause"
-            value={pattern.pause}
-            onChange={(value) => updatePattern('pause', value)}
-            min={0}
-            max={10}
-            step={0.5}
-            color="from-violet-400 to-purple-600"
-          />
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-white/80 tracking-wide">Session Length</label>
+            <div className="flex gap-2">
+              {(['cycles', 'minutes'] as const).map((type) => (
+                <Button
+                  key={type}
+                  variant={target.type === type ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => updateTarget(type === 'cycles' ? { type, value: 10 } : { type, value: 5 })}
+                  className="rounded-xl capitalize"
+                >
+                  {type}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {target.type === 'cycles' ? (
+            <CustomSlider
+              label="Cycles"
+              value={target.value}
+              onChange={(value) => updateTarget({ type: 'cycles', value })}
+              min={1}
+              max={60}
+              step={1}
+              color="from-emerald-500 to-teal-600"
+              unit="cycles"
+            />
+          ) : (
+            <CustomSlider
+              label="Duration"
+              value={target.value}
+              onChange={(value) => updateTarget({ type: 'minutes', value })}
+              min={1}
+              max={30}
+              step={1}
+              color="from-emerald-500 to-teal-600"
+              unit="min"
+            />
+          )}
+
+          <p className="text-xs text-white/50">
+            {target.type === 'cycles'
+              ? `About ${estimatedMinutes} min, ends with a chime`
+              : `${estimatedCycles} full ${estimatedCycles === 1 ? 'cycle' : 'cycles'}, ends with a chime`}
+          </p>
         </motion.div>
 
-        {/* Custom name input - Enhanced UI/UX */}
+        {/* Name, tag, description, color and icon for the saved preset */}
         {!presetName && (
           <motion.div
-            className="space-y-3"
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.7, duration: 0.6 }}
           >
-            <div className="space-y-1">
-              <label className="text-sm text-white/80 tracking-wide flex items-center justify-between">
-                <span>Pattern Name</span>
-                <span className="text-xs text-white/40">{customName.length}/30</span>
-              </label>
-              <p className="text-xs text-white/50">
-                Give your breathing pattern a memorable name
-              </p>
-            </div>
-            <div className="relative">
-              <Input
-                placeholder="e.g., Morning Focus, Deep Relax..."
-                value={customName}
-                onChange={(e) => {
-                  const value = e.target.value
-                  if (value.length <= 30) {
-                    setCustomName(value)
-                  }
-                }}
-                maxLength={30}
-                className="bg-white/5 border-white/10 focus:border-primary/50 focus:bg-white/8 rounded-xl px-4 py-3 placeholder:text-white/30 transition-all duration-300 focus:ring-2 focus:ring-primary/20 focus:ring-offset-0"
-              />
-              {customName && (
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  className="absolute right-3 top-1/2 -translate-y-1/2"
-                >
-                  <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                </motion.div>
-              )}
-            </div>
-            {customName.length === 30 && (
-              <motion.p
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="text-xs text-amber-400 flex items-center space-x-1"
-              >
-                <span>⚠️</span>
-                <span>Character limit reached</span>
-              </motion.p>
-            )}
+            <ExerciseDetailsEditor
+              details={details}
+              onChange={setDetails}
+              nameError={
+                details.name.trim() && isNameTaken(details.name, libraryExercises, editExercise?.id)
+                  ? 'An exercise with this name already exists'
+                  : undefined
+              }
+            />
           </motion.div>
         )}
       </div>
@@ -326,18 +617,47 @@ export function ControlPanel({
             className="flex-1 h-12 rounded-xl border-white/20 hover:bg-white/5"
           >
             <Save className="w-4 h-4 mr-2" />
-            Save Preset
+            {editExercise ? 'Save Changes' : 'Save Preset'}
           </Button>
         )}
         
         <Button
-          onClick={() => onStartSession(pattern, presetName)}
+          onClick={handleStartSession}
           className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700 aora-glow"
         >
           <Play className="w-4 h-4 mr-2" />
           Start Session
         </Button>
       </motion.div>
+
+      {/* Name conflict prompt */}
+      <AlertDialog open={nameConflict !== null} onOpenChange={(open: boolean) => !open && setNameConflict(null)}>
+        <AlertDialogContent className="glass-card border-white/10 bg-background/95">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Name Already Taken</AlertDialogTitle>
+            <AlertDialogDescription>
+              There's already an exercise called "{nameConflict?.name}". Save this one as "{nameConflict?.suggestion}",
+              or go back and choose another name.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-white/20 hover:bg-white/5">
+              Rename
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (!nameConflict) return
+                setDetails({ ...details, name: nameConflict.suggestion })
+                saveExercise(nameConflict.suggestion)
+                setNameConflict(null)
+              }}
+              className="bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700"
+            >
+              Save as "{nameConflict?.suggestion}"
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { useState } from 'react'
+import { Ban, Flame, Heart, Leaf, LucideIcon, Moon, Mountain, Sun, Target, Waves, Wind, Zap } from 'lucide-react'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+
+export interface ExerciseDetails {
+  name: string
+  tag: string
+  description: string
+  color: string
+  icon?: string
+}
+
+export const MAX_NAME_LENGTH = 30
+export const MAX_DESCRIPTION_LENGTH = 120
+const MAX_TAG_LENGTH = 16
+
+export const exerciseTags = ['Calm', 'Focus', 'Sleep', 'Balance', 'Custom']
+
+// The library card gradients, so custom exercises sit alongside the defaults
+export const exerciseColors = [
+  'from-blue-500 to-blue-600',
+  'from-violet-500 to-purple-600',
+  'from-emerald-500 to-teal-600',
+  'from-cyan-500 to-blue-600',
+  'from-indigo-500 to-purple-600',
+  'from-pink-500 to-rose-600',
+  'from-amber-400 to-orange-500'
+]
+
+// Stored by key so saved exercises don't depend on the icon library's names
+export const exerciseIcons: Record<string, LucideIcon> = {
+  wind: Wind,
+  waves: Waves,
+  leaf: Leaf,
+  moon: Moon,
+  sun: Sun,
+  heart: Heart,
+  target: Target,
+  zap: Zap,
+  flame: Flame,
+  mountain: Mountain
+}
+
+const NEW_TAG = '__new'
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+// Whether another exercise (other than `exceptId`) already goes by this name
+export function isNameTaken(name: string, exercises: { id: string, name: string }[], exceptId?: string): boolean {
+  return exercises.some(exercise => exercise.id !== exceptId && normalizeName(exercise.name) === normalizeName(name))
+}
+
+// `name`, or the first free "name 2", "name 3"... that still fits the length limit
+export function getUniqueName(name: string, exercises: { id: string, name: string }[], exceptId?: string): string {
+  let candidate = name.trim()
+  for (let count = 2; isNameTaken(candidate, exercises, exceptId); count++) {
+    const suffix = ` ${count}`
+    candidate = name.trim().slice(0, MAX_NAME_LENGTH - suffix.length) + suffix
+  }
+  return candidate
+}
+
+// The built-in tags plus any the user has made up
+function getKnownTags(): string[] {
+  try {
+    const stored: { tag?: string }[] = JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]')
+    const customTags = stored.map(exercise => exercise.tag).filter((tag): tag is string => !!tag)
+    return [...new Set([...exerciseTags, ...customTags])]
+  } catch (error) {
+    console.error('Error parsing custom exercises:', error)
+    return exerciseTags
+  }
+}
+
+interface ExerciseDetailsEditorProps {
+  details: ExerciseDetails
+  onChange: (details: ExerciseDetails) => void
+  nameError?: string
+}
+
+export function ExerciseDetailsEditor({ details, onChange, nameError }: ExerciseDetailsEditorProps) {
+  const [knownTags] = useState(getKnownTags)
+  const [isNewTag, setIsNewTag] = useState(() => !knownTags.includes(details.tag))
+
+  const update = (changes: Partial<ExerciseDetails>) => onChange({ ...details, ...changes })
+
+  const selectTag = (tag: string) => {
+    if (tag === NEW_TAG) {
+      setIsNewTag(true)
+      update({ tag: '' })
+      return
+    }
+    setIsNewTag(false)
+    update({ tag })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm text-white/80 tracking-wide flex items-center justify-between">
+          <span>Name</span>
+          <span className="text-xs text-white/40">{details.name.length}/{MAX_NAME_LENGTH}</span>
+        </label>
+        <Input
+          placeholder="e.g., Morning Focus, Deep Relax..."
+          value={details.name}
+          onChange={(e) => update({ name: e.target.value.slice(0, MAX_NAME_LENGTH) })}
+          maxLength={MAX_NAME_LENGTH}
+          className="bg-white/5 border-white/10 rounded-xl px-4 py-3 placeholder:text-white/30"
+        />
+        {nameError && <p className="text-xs text-amber-400">{nameError}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-white/80 tracking-wide">Tag</label>
+        <Select value={isNewTag ? NEW_TAG : details.tag} onValueChange={selectTag}>
+          <SelectTrigger className="bg-white/5 border-white/10 rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {knownTags.map((tag) => (
+              <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+            ))}
+            <SelectItem value={NEW_TAG}>New tag…</SelectItem>
+          </SelectContent>
+        </Select>
+        {isNewTag && (
+          <Input
+            placeholder="Tag name"
+            value={details.tag}
+            onChange={(e) => update({ tag: e.target.value.slice(0, MAX_TAG_LENGTH) })}
+            maxLength={MAX_TAG_LENGTH}
+            className="bg-white/5 border-white/10 rounded-xl placeholder:text-white/30"
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-white/80 tracking-wide flex items-center justify-between">
+          <span>Description</span>
+          <span className="text-xs text-white/40">{details.description.length}/{MAX_DESCRIPTION_LENGTH}</span>
+        </label>
+        <Textarea
+          placeholder="What is this pattern for?"
+          value={details.description}
+          onChange={(e) => update({ description: e.target.value.slice(0, MAX_DESCRIPTION_LENGTH) })}
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          className="bg-white/5 border-white/10 rounded-xl placeholder:text-white/30 resize-none"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-white/80 tracking-wide">Color</label>
+        <div className="flex gap-3">
+          {exerciseColors.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => update({ color })}
+              className={`w-8 h-8 rounded-full bg-gradient-to-r ${color} border-2 border-transparent transition-colors`}
+              style={details.color === color ? { borderColor: '#fff' } : undefined}
+              aria-label={color}
+              aria-pressed={details.color === color}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-white/80 tracking-wide flex items-center justify-between">
+          <span>Icon</span>
+          <span className="text-xs text-white/40">Optional</span>
+        </label>
+        <div className="grid gap-2" style={{ gridTemplateColumns: 'repeat(6, minmax(0, 1fr))' }}>
+          <button
+            type="button"
+            onClick={() => update({ icon: undefined })}
+            className={`h-9 rounded-lg flex items-center justify-center transition-colors ${!details.icon ? 'bg-white/20' : 'bg-white/5 hover:bg-white/10'}`}
+            aria-label="No icon"
+            aria-pressed={!details.icon}
+          >
+            <Ban className="w-4 h-4 text-white/40" />
+          </button>
+          {Object.entries(exerciseIcons).map(([key, Icon]) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => update({ icon: key })}
+              className={`h-9 rounded-lg flex items-center justify-center transition-colors ${details.icon === key ? 'bg-white/20' : 'bg-white/5 hover:bg-white/10'}`}
+              aria-label={key}
+              aria-pressed={details.icon === key}
+            >
+              <Icon className="w-4 h-4 text-white/70" />
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+// Favorites, pins and custom ordering for AORA exercises
+//
+// Kept apart from the exercises themselves so the built-in defaults stay
+// untouched; everything here refers to exercises by id.
+
+export interface ExercisePreferences {
+  favorites: string[]
+  // Pinned exercises show first in the library, in the order they were pinned
+  pinned: string[]
+  // Manual order of custom exercises; ones not listed keep their saved order after these
+  order: string[]
+}
+
+const emptyPreferences: ExercisePreferences = { favorites: [], pinned: [], order: [] }
+
+export function loadExercisePreferences(): ExercisePreferences {
+  try {
+    const stored = localStorage.getItem('aora-exercise-preferences')
+    if (stored) return { ...emptyPreferences, ...JSON.parse(stored) }
+  } catch (error) {
+    console.error('Error parsing exercise preferences:', error)
+  }
+  return emptyPreferences
+}
+
+export function saveExercisePreferences(preferences: ExercisePreferences): void {
+  localStorage.setItem('aora-exercise-preferences', JSON.stringify(preferences))
+}
+
+// Add `id` to the list, or take it out if it's already there
+export function toggleId(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]
+}
+
+export function applyOrder<T extends { id: string }>(exercises: T[], order: string[]): T[] {
+  const position = (exercise: T) => {
+    const index = order.indexOf(exercise.id)
+    return index === -1 ? order.length : index
+  }
+  return [...exercises].sort((a, b) => position(a) - position(b))
+}
+
+// Drop ids of exercises that have since been deleted
+export function pruneExercisePreferences(preferences: ExercisePreferences, ids: string[]): ExercisePreferences {
+  return {
+    favorites: preferences.favorites.filter(id => ids.includes(id)),
+    pinned: preferences.pinned.filter(id => ids.includes(id)),
+    order: preferences.order.filter(id => ids.includes(id))
+  }
+}
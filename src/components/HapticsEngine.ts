@@ -0,0 +1,157 @@
+// Haptic rhythm engine for AORA
+//
+// Turns each breath phase into a navigator.vibrate sequence: ramping pulses
+// while inhaling, a single tap at the holds and a long fade on the exhale.
+
+import { PhaseType } from './BreathPattern'
+import { BreathScheduler } from './BreathScheduler'
+
+export type HapticIntensity = 'subtle' | 'balanced' | 'strong'
+
+export interface HapticSettings {
+  enabled: boolean
+  intensity: HapticIntensity
+}
+
+// Per-phase strength multipliers; the Vibration API has no amplitude, so strength is pulse length
+export const hapticPresets: Record<HapticIntensity, { name: string, description: string, levels: Record<PhaseType, number> }> = {
+  subtle: {
+    name: 'Subtle',
+    description: 'Barely-there taps',
+    levels: { 'inhale': 0.6, 'top-up': 0.6, 'hold-full': 0.5, 'exhale': 0.5, 'hold-empty': 0.4, 'retention': 0.4 }
+  },
+  balanced: {
+    name: 'Balanced',
+    description: 'Clear but gentle',
+    levels: { 'inhale': 1, 'top-up': 1, 'hold-full': 0.8, 'exhale': 0.9, 'hold-empty': 0.6, 'retention': 0.6 }
+  },
+  strong: {
+    name: 'Strong',
+    description: 'Easy to feel through a pocket',
+    levels: { 'inhale': 1.6, 'top-up': 1.5, 'hold-full': 1.4, 'exhale': 1.5, 'hold-empty': 1.2, 'retention': 1.2 }
+  }
+}
+
+const TICK_MS = 50
+
+export function getHapticSettings(): HapticSettings {
+  const settings: HapticSettings = { enabled: true, intensity: 'balanced' }
+
+  try {
+    const enabled = localStorage.getItem('aora-haptics')
+    const intensity = localStorage.getItem('aora-haptics-intensity')
+    if (enabled !== null) settings.enabled = JSON.parse(enabled)
+    if (intensity !== null && JSON.parse(intensity) in hapticPresets) settings.intensity = JSON.parse(intensity)
+  } catch (error) {
+    console.error('Error parsing haptic settings:', error)
+  }
+
+  return settings
+}
+
+// Vibrate/pause sequence in milliseconds for a phase lasting `duration` seconds
+export function buildVibrationPattern(phase: PhaseType, duration: number, level: number): number[] {
+  const durationMs = Math.max(0, duration * 1000)
+  const pulse = (ms: number) => Math.max(5, Math.round(ms * level))
+  const count = Math.min(8, Math.max(2, Math.round(duration)))
+  const step = durationMs / count
+
+  switch (phase) {
+    case 'inhale': {
+      // Pulses lengthen as the lungs fill
+      const pattern: number[] = []
+      for (let i = 0; i < count; i++) {
+        const on = pulse(15 + (35 * (i + 1)) / count)
+        pattern.push(on, Math.max(0, Math.round(step - on)))
+      }
+      return pattern.slice(0, -1)
+    }
+    case 'top-up':
+      return [pulse(30), 80, pulse(30)]
+    case 'hold-full':
+      return [pulse(40)]
+    case 'exhale': {
+      // One long buzz that fades into shorter, sparser pulses
+      const pattern: number[] = [pulse(120), Math.round(step / 2)]
+      for (let i = 1; i < count; i++) {
+        const on = pulse(60 * (1 - i / count) + 10)
+        pattern.push(on, Math.max(0, Math.round(step - on)))
+      }
+      return pattern.slice(0, -1)
+    }
+    case 'hold-empty':
+    case 'retention':
+      return [pulse(20)]
+  }
+}
+
+export class HapticsEngine {
+  private static instance: HapticsEngine
+  private tickId: number | null = null
+  private lastKey: string | null = null
+
+  static getInstance(): HapticsEngine {
+    if (!HapticsEngine.instance) {
+      HapticsEngine.instance = new HapticsEngine()
+    }
+    return HapticsEngine.instance
+  }
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function'
+  }
+
+  // Vibrate at the start of every phase of a running scheduler
+  follow(scheduler: BreathScheduler): void {
+    this.stop()
+    if (!this.isSupported()) return
+
+    let wasRunning = false
+    const tick = () => {
+      if (!scheduler.isRunning) {
+        if (wasRunning) navigator.vibrate(0)
+        wasRunning = false
+        return
+      }
+      wasRunning = true
+
+      const state = scheduler.getState()
+      const key = `${state.cycle}:${state.phaseIndex}`
+      if (key === this.lastKey) return
+
+      this.lastKey = key
+      this.playPhase(state.phase, state.phaseRemaining)
+    }
+
+    tick()
+    this.tickId = window.setInterval(tick, TICK_MS)
+  }
+
+  stop(): void {
+    if (this.tickId !== null) {
+      clearInterval(this.tickId)
+      this.tickId = null
+    }
+    this.lastKey = null
+    if (this.isSupported()) {
+      navigator.vibrate(0)
+    }
+  }
+
+  playPhase(phase: PhaseType, duration: number, intensity = getHapticSettings().intensity): boolean {
+    if (!this.isSupported()) return false
+
+    const level = hapticPresets[intensity].levels[phase]
+    return navigator.vibrate(buildVibrationPattern(phase, duration, level))
+  }
+
+  // Two firm taps for a change the breather has to act on, felt even with eyes closed
+  playSignal(intensity = getHapticSettings().intensity): boolean {
+    if (!this.isSupported()) return false
+
+    const pulse = Math.round(150 * hapticPresets[intensity].levels['hold-full'])
+    return navigator.vibrate([pulse, 120, pulse])
+  }
+}
+
+export const hapticsEngine = HapticsEngine.getInstance()
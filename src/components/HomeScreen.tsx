@@ -3,45 +3,56 @@ import { motion } from 'motion/react'
 import { BreathingOrb } from './BreathingOrb'
 import { Button } from './ui/button'
 import { AoraLogo } from './AoraLogo'
-import { Play, Library, CheckCircle } from 'lucide-react'
+import { Play, Library, CheckCircle, Star } from 'lucide-react'
+import { BreathPattern, formatPattern, normalizePattern } from './BreathPattern'
+import { defaultExercises, normalizeExercise } from './UpdatedExerciseLibrary'
+import { loadExercisePreferences } from './ExercisePreferences'
 
 interface Exercise {
   id: string
   name: string
   tag: string
   description: string
-  pattern: {
-    inhale: number
-    hold: number
-    exhale: number
-    pause: number
-  }
+  pattern: BreathPattern
   color: string
 }
 
 interface HomeScreenProps {
   onStartPractice: () => void
+  onQuickStart: (exercise: Exercise) => void
 }
 
-export function HomeScreen({ onStartPractice }: HomeScreenProps) {
+export function HomeScreen({ onStartPractice, onQuickStart }: HomeScreenProps) {
   const [userName] = useState(() => localStorage.getItem('aora-user-name') || 'Friend')
   const [activeExercise, setActiveExercise] = useState<Exercise | null>(null)
+  const [favorites, setFavorites] = useState<Exercise[]>([])
 
   useEffect(() => {
     // Load active exercise from localStorage
     const stored = localStorage.getItem('aora-active-exercise')
     if (stored) {
       try {
-        setActiveExercise(JSON.parse(stored))
+        const exercise = JSON.parse(stored)
+        setActiveExercise({ ...exercise, pattern: normalizePattern(exercise.pattern) })
       } catch (error) {
         console.error('Error parsing active exercise:', error)
       }
     }
-  }, [])
 
-  const formatPattern = (pattern: Exercise['pattern']) => {
-    return `In ${pattern.inhale} • Hold ${pattern.hold} • Out ${pattern.exhale}${pattern.pause > 0 ? ` • Pause ${pattern.pause}` : ''}`
-  }
+    // Favorites in the order they were added, looked up among default and custom exercises
+    let customExercises: Exercise[] = []
+    try {
+      customExercises = JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]').map(normalizeExercise)
+    } catch (error) {
+      console.error('Error parsing custom exercises:', error)
+    }
+    const exercises = [...defaultExercises, ...customExercises]
+    setFavorites(
+      loadExercisePreferences().favorites
+        .map(id => exercises.find(exercise => exercise.id === id))
+        .filter((exercise): exercise is Exercise => !!exercise)
+    )
+  }, [])
 
   const handleStartPractice = () => {
     if (activeExercise) {
@@ -137,6 +148,32 @@ export function HomeScreen({ onStartPractice }: HomeScreenProps) {
           </motion.div>
         )}
 
+        {/* Favorites quick start */}
+        {favorites.length > 0 && (
+          <motion.div
+            className="space-y-3"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3, duration: 0.8 }}
+          >
+            <p className="text-sm text-muted-foreground">Favorites</p>
+            <div className="flex gap-2" style={{ overflowX: 'auto' }}>
+              {favorites.map((exercise) => (
+                <Button
+                  key={exercise.id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onQuickStart(exercise)}
+                  className="rounded-full shrink-0 border-white/20 hover:bg-white/5"
+                >
+                  <Star className="w-3 h-3 mr-2 text-amber-400" fill="currentColor" />
+                  {exercise.name}
+                </Button>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Central breathing orb area */}
         <div className="flex-1 flex flex-col items-center justify-center relative min-h-[300px]">
           {/* Background breathing gradient */}
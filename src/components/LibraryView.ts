@@ -0,0 +1,103 @@
+// Search, tag filtering and sorting for the AORA exercise library
+//
+// The chosen tags and sort order are remembered between visits; the search
+// text is not, so the library never opens looking mysteriously empty.
+
+import { BreathPattern, getCycleDuration } from './BreathPattern'
+
+export type LibrarySort = 'default' | 'name' | 'cycle' | 'most-practiced' | 'recent'
+
+export interface LibraryView {
+  sort: LibrarySort
+  tags: string[]
+}
+
+export interface PracticeStats {
+  count: number
+  // Epoch ms of the latest session
+  last: number
+}
+
+interface LibraryExercise {
+  name: string
+  tag: string
+  description: string
+  pattern: BreathPattern
+}
+
+export const sortOptions: { value: LibrarySort, label: string }[] = [
+  { value: 'default', label: 'Library order' },
+  { value: 'name', label: 'Name' },
+  { value: 'cycle', label: 'Cycle length' },
+  { value: 'most-practiced', label: 'Most practiced' },
+  { value: 'recent', label: 'Recently practiced' }
+]
+
+const defaultView: LibraryView = { sort: 'default', tags: [] }
+
+export function loadLibraryView(): LibraryView {
+  try {
+    const stored = localStorage.getItem('aora-library-view')
+    if (stored) return { ...defaultView, ...JSON.parse(stored) }
+  } catch (error) {
+    console.error('Error parsing library view:', error)
+  }
+  return defaultView
+}
+
+export function saveLibraryView(view: LibraryView): void {
+  localStorage.setItem('aora-library-view', JSON.stringify(view))
+}
+
+// Sessions per exercise name, from the session history
+export function getPracticeStats(): Record<string, PracticeStats> {
+  let history: { exercise?: string, date: string }[] = []
+  try {
+    history = JSON.parse(localStorage.getItem('aora-session-history') || '[]')
+  } catch (error) {
+    console.error('Error parsing session history:', error)
+  }
+
+  return history.reduce<Record<string, PracticeStats>>((stats, session) => {
+    if (!session.exercise) return stats
+    const previous = stats[session.exercise] ?? { count: 0, last: 0 }
+    stats[session.exercise] = {
+      count: previous.count + 1,
+      last: Math.max(previous.last, new Date(session.date).getTime() || 0)
+    }
+    return stats
+  }, {})
+}
+
+// Tags in first-seen order, without repeats
+export function getTagsInUse(exercises: LibraryExercise[]): string[] {
+  return [...new Set(exercises.map(exercise => exercise.tag))]
+}
+
+export function filterExercises<T extends LibraryExercise>(exercises: T[], query: string, tags: string[]): T[] {
+  const search = query.trim().toLowerCase()
+
+  return exercises.filter(exercise =>
+    (tags.length === 0 || tags.includes(exercise.tag)) &&
+    (!search ||
+      exercise.name.toLowerCase().includes(search) ||
+      exercise.description.toLowerCase().includes(search))
+  )
+}
+
+// Ties, and exercises never practiced, keep their library order
+export function sortExercises<T extends LibraryExercise>(
+  exercises: T[],
+  sort: LibrarySort,
+  stats: Record<string, PracticeStats>
+): T[] {
+  const compare: Record<LibrarySort, (a: T, b: T) => number> = {
+    'default': () => 0,
+    'name': (a, b) => a.name.localeCompare(b.name),
+    'cycle': (a, b) => getCycleDuration(a.pattern) - getCycleDuration(b.pattern),
+    'most-practiced': (a, b) => (stats[b.name]?.count ?? 0) - (stats[a.name]?.count ?? 0),
+    'recent': (a, b) => (stats[b.name]?.last ?? 0) - (stats[a.name]?.last ?? 0)
+  }
+
+  return [...exercises].sort(compare[sort])
+}
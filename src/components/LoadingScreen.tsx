@@ -1,11 +1,25 @@
 import { motion } from 'motion/react'
 import { AoraLogo } from './AoraLogo'
+import { BreathPattern } from './BreathPattern'
+import { getBreathLevel } from './BreathScheduler'
+import { useBreathScheduler } from './useBreathScheduler'
+
+// Gentle 4s breath behind the loading message
+const loadingPattern: BreathPattern = {
+  phases: [
+    { type: 'inhale', duration: 2 },
+    { type: 'exhale', duration: 2 }
+  ]
+}
 
 interface LoadingScreenProps {
   message?: string
 }
 
 export function LoadingScreen({ message = "Loading..." }: LoadingScreenProps) {
+  const { state: breath } = useBreathScheduler(loadingPattern, true)
+  const level = getBreathLevel(breath)
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -68,14 +82,9 @@ export function LoadingScreen({ message = "Loading..." }: LoadingScreenProps) {
       >
         <div className="size-full relative">
           <motion.div
-            animate={{ 
-              scale: [1, 1.2, 1],
-              opacity: [0.1, 0.2, 0.1]
-            }}
-            transition={{
-              duration: 4,
-              repeat: Infinity,
-              ease: "easeInOut"
+            style={{
+              scale: 1 + level * 0.2,
+              opacity: 0.1 + level * 0.1
             }}
             className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-96 h-96 rounded-full bg-gradient-to-r from-primary/20 to-chart-2/20 blur-3xl"
           />
@@ -0,0 +1,210 @@
+// Printable pattern cards and QR codes for AORA exercises
+//
+// Both are drawn to canvas on the device. The QR code carries the exercise's
+// share link, so scanning it with any phone camera opens the import preview.
+
+import { getBreathsPerMinute, getCycleDuration, getPhaseLabel, phaseChartColors } from './BreathPattern'
+import { SharedExercise, getShareLink } from './PatternShare'
+import { QrModules, generateQrCode } from './QrCode'
+
+// Scanners need a light margin of at least four modules around the code
+const QR_QUIET_ZONE = 4
+
+const CARD_WIDTH = 1080
+const CARD_PADDING = 72
+const CARD_BACKGROUND = '#0C0D10'
+const FONT = "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif"
+
+// Start and end colors of each gradient in the exercise color palette
+const gradientColors: Record<string, [string, string]> = {
+  'from-blue-500 to-blue-600': ['#3b82f6', '#2563eb'],
+  'from-violet-500 to-purple-600': ['#8b5cf6', '#9333ea'],
+  'from-emerald-500 to-teal-600': ['#10b981', '#0d9488'],
+  'from-cyan-500 to-blue-600': ['#06b6d4', '#2563eb'],
+  'from-indigo-500 to-purple-600': ['#6366f1', '#9333ea'],
+  'from-pink-500 to-rose-600': ['#ec4899', '#e11d48'],
+  'from-amber-400 to-orange-500': ['#fbbf24', '#f97316']
+}
+
+const roundTenth = (value: number) => Math.round(value * 10) / 10
+
+// Draw a QR code with its quiet zone into a square of `size` pixels at (x, y)
+function drawQrModules(context: CanvasRenderingContext2D, modules: QrModules, x: number, y: number, size: number): void {
+  const count = modules.length + QR_QUIET_ZONE * 2
+  // Whole pixels per module keep the edges crisp; what's left over is split around the code
+  const moduleSize = Math.max(1, Math.floor(size / count))
+  const offset = Math.floor((size - moduleSize * count) / 2)
+
+  context.fillStyle = '#ffffff'
+  context.fillRect(x, y, size, size)
+  context.fillStyle = '#000000'
+  modules.forEach((row, rowIndex) => {
+    row.forEach((isDark, columnIndex) => {
+      if (!isDark) return
+      context.fillRect(
+        x + offset + (columnIndex + QR_QUIET_ZONE) * moduleSize,
+        y + offset + (rowIndex + QR_QUIET_ZONE) * moduleSize,
+        moduleSize,
+        moduleSize
+      )
+    })
+  })
+}
+
+export function getShareQrCode(exercise: SharedExercise): QrModules | null {
+  return generateQrCode(getShareLink(exercise))
+}
+
+// Render a QR code onto a square canvas of `size` pixels
+export function drawQrCode(canvas: HTMLCanvasElement, modules: QrModules, size: number): void {
+  const context = canvas.getContext('2d')
+  if (!context) return
+
+  canvas.width = size
+  canvas.height = size
+  drawQrModules(context, modules, 0, 0, size)
+}
+
+function drawRoundedRect(context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
+  const r = Math.min(radius, width / 2, height / 2)
+  context.beginPath()
+  context.moveTo(x + r, y)
+  context.arcTo(x + width, y, x + width, y + height, r)
+  context.arcTo(x + width, y + height, x, y + height, r)
+  context.arcTo(x, y + height, x, y, r)
+  context.arcTo(x, y, x + width, y, r)
+  context.closePath()
+}
+
+// Shorten text with an ellipsis until it fits `maxWidth` in the current font
+function fitText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (context.measureText(text).width <= maxWidth) return text
+  let fitted = text
+  while (fitted.length > 1 && context.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}…`
+}
+
+// A portrait card with the name, cycle length, phase breakdown and a QR code to import it
+export function createPatternCard(exercise: SharedExercise): HTMLCanvasElement {
+  const { phases } = exercise.pattern
+  const contentWidth = CARD_WIDTH - CARD_PADDING * 2
+  const rowHeight = 72
+  const qrSize = 360
+  const height = 420 + phases.length * rowHeight + qrSize + 160
+
+  const canvas = document.createElement('canvas')
+  canvas.width = CARD_WIDTH
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) return canvas
+
+  context.fillStyle = CARD_BACKGROUND
+  context.fillRect(0, 0, CARD_WIDTH, height)
+
+  // Accent bar in the exercise's own colors
+  const [from, to] = gradientColors[exercise.color] ?? gradientColors['from-indigo-500 to-purple-600']
+  const accent = context.createLinearGradient(0, 0, CARD_WIDTH, 0)
+  accent.addColorStop(0, from)
+  accent.addColorStop(1, to)
+  context.fillStyle = accent
+  context.fillRect(0, 0, CARD_WIDTH, 16)
+
+  context.textBaseline = 'alphabetic'
+  context.fillStyle = 'rgba(255, 255, 255, 0.5)'
+  context.font = `600 28px ${FONT}`
+  context.fillText(exercise.tag.toUpperCase(), CARD_PADDING, 120)
+
+  context.fillStyle = '#ffffff'
+  context.font = `700 64px ${FONT}`
+  context.fillText(fitText(context, exercise.name, contentWidth), CARD_PADDING, 196)
+
+  const cycle = getCycleDuration(exercise.pattern)
+  context.fillStyle = 'rgba(255, 255, 255, 0.7)'
+  context.font = `400 34px ${FONT}`
+  context.fillText(
+    `Cycle ${roundTenth(cycle)}s · ${roundTenth(getBreathsPerMinute(exercise.pattern))} breaths/min`,
+    CARD_PADDING,
+    252
+  )
+
+  // The whole cycle as one bar, each phase as wide as its share of the cycle
+  const barY = 300
+  const barHeight = 40
+  context.save()
+  drawRoundedRect(context, CARD_PADDING, barY, contentWidth, barHeight, barHeight / 2)
+  context.clip()
+  let barX = CARD_PADDING
+  phases.forEach(phase => {
+    const width = cycle > 0 ? (Math.max(0, phase.duration) / cycle) * contentWidth : 0
+    context.fillStyle = phaseChartColors[phase.type]
+    context.fillRect(barX, barY, width, barHeight)
+    barX += width
+  })
+  context.restore()
+
+  // One row per phase: color swatch, label and duration
+  phases.forEach((phase, index) => {
+    const y = 400 + index * rowHeight
+    context.fillStyle = phaseChartColors[phase.type]
+    drawRoundedRect(context, CARD_PADDING, y, 28, 28, 8)
+    context.fill()
+
+    context.fillStyle = '#ffffff'
+    context.font = `500 34px ${FONT}`
+    context.textAlign = 'left'
+    context.fillText(fitText(context, getPhaseLabel(phase), contentWidth - 200), CARD_PADDING + 52, y + 26)
+
+    context.fillStyle = 'rgba(255, 255, 255, 0.7)'
+    context.textAlign = 'right'
+    context.fillText(`${roundTenth(phase.duration)}s`, CARD_WIDTH - CARD_PADDING, y + 26)
+  })
+  context.textAlign = 'left'
+
+  const qrY = 400 + phases.length * rowHeight + 40
+  const modules = getShareQrCode(exercise)
+  if (modules) {
+    const qrX = (CARD_WIDTH - qrSize) / 2
+    context.save()
+    drawRoundedRect(context, qrX, qrY, qrSize, qrSize, 24)
+    context.clip()
+    drawQrModules(context, modules, qrX, qrY, qrSize)
+    context.restore()
+  }
+
+  context.fillStyle = 'rgba(255, 255, 255, 0.4)'
+  context.font = `400 26px ${FONT}`
+  context.textAlign = 'center'
+  context.fillText('Scan to open this pattern in AORA', CARD_WIDTH / 2, qrY + qrSize + 60)
+  context.textAlign = 'left'
+
+  return canvas
+}
+
+export function getPatternCardFileName(exercise: SharedExercise): string {
+  const slug = exercise.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'aora'}-pattern-card.png`
+}
+
+export function downloadPatternCard(exercise: SharedExercise): Promise<void> {
+  return new Promise((resolve, reject) => {
+    createPatternCard(exercise).toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Could not render pattern card'))
+        return
+      }
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = getPatternCardFileName(exercise)
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      // Give the browser a moment to start the download before the URL goes away
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+      resolve()
+    }, 'image/png')
+  })
+}
@@ -0,0 +1,196 @@
+// Shareable pattern links for AORA
+//
+// An exercise travels in the URL hash as `#share=<version>.<payload>`, where the
+// payload is base64url-encoded JSON with short keys and phases as compact
+// [type, seconds, label?] tuples. Nothing leaves the device until the link is sent.
+// e.g. 4-2-6-2 "Wind-down" is #share=1.eyJuIjoiV2luZC1kb3duIi...
+
+import { BreathPattern, PatternPhase, PhaseType, ProgressionRule, isOpenPhase, progressionRanges } from './BreathPattern'
+import { MAX_NAME_LENGTH, exerciseColors, exerciseIcons, getUniqueName } from './ExerciseDetailsEditor'
+import { defaultExercises } from './UpdatedExerciseLibrary'
+
+export const SHARE_VERSION = 1
+
+export interface SharedExercise {
+  name: string
+  tag: string
+  color: string
+  icon?: string
+  pattern: BreathPattern
+}
+
+interface SharePayload {
+  n: string
+  t: string
+  // Index into the color palette
+  c: number
+  i?: string
+  p: [string, number, string?][]
+  g?: ProgressionRule[]
+}
+
+const MAX_SHARED_PHASES = 8
+const MAX_PHASE_SECONDS = 180
+const MAX_SHARED_RULES = 4
+
+const phaseCodes: Record<PhaseType, string> = {
+  'inhale': 'i',
+  'top-up': 't',
+  'hold-full': 'h',
+  'exhale': 'e',
+  'hold-empty': 'x',
+  'retention': 'r'
+}
+
+const codePhases = Object.fromEntries(
+  Object.entries(phaseCodes).map(([type, code]) => [code, type])
+) as Record<string, PhaseType>
+
+const DEFAULT_COLOR = 'from-indigo-500 to-purple-600'
+
+// base64url over UTF-8, so names in any script survive the trip
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+export function encodeSharedExercise(exercise: SharedExercise): string {
+  const payload: SharePayload = {
+    n: exercise.name,
+    t: exercise.tag,
+    c: Math.max(0, exerciseColors.indexOf(exercise.color)),
+    i: exercise.icon,
+    p: exercise.pattern.phases.map(phase =>
+      phase.label ? [phaseCodes[phase.type], phase.duration, phase.label] : [phaseCodes[phase.type], phase.duration]
+    ),
+    g: exercise.pattern.progression
+  }
+
+  return `${SHARE_VERSION}.${toBase64Url(JSON.stringify(payload))}`
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// Only real palette positions, never array properties like `length`
+const isPaletteIndex = (value: unknown): value is number =>
+  isNumber(value) && Number.isInteger(value) && value >= 0 && value < exerciseColors.length
+
+function decodePhase(entry: unknown): PatternPhase | null {
+  if (!Array.isArray(entry)) return null
+  const [code, duration, label] = entry
+  if (typeof code !== 'string' || !Object.prototype.hasOwnProperty.call(codePhases, code)) return null
+  const type = codePhases[code]
+  // Open-ended retention belongs to power breathing, never to a paced exercise
+  if (isOpenPhase(type) || !isNumber(duration) || duration <= 0) return null
+
+  return {
+    type,
+    duration: Math.min(duration, MAX_PHASE_SECONDS),
+    ...(typeof label === 'string' && label ? { label: label.slice(0, 20) } : {})
+  }
+}
+
+const clamp = (value: number, { min, max }: { min: number, max: number }) => Math.min(max, Math.max(min, value))
+
+// Rebuilt field by field and held to the editor's ranges, so a crafted link can't
+// stretch a phase without bound or squeeze a cycle down to nothing
+function decodeProgressionRule(rule: unknown, phaseCount: number): ProgressionRule | null {
+  if (!rule || typeof rule !== 'object') return null
+  const { kind, phaseIndex, step, every, limit } = rule as Record<string, unknown>
+  if (!isNumber(step) || !isNumber(every) || !isNumber(limit)) return null
+
+  const fields = {
+    step: clamp(step, progressionRanges.step),
+    every: Math.round(clamp(every, progressionRanges.every))
+  }
+  if (kind === 'rate') {
+    return { kind, ...fields, limit: clamp(limit, progressionRanges.limit.rate) }
+  }
+  if (kind === 'phase' && isNumber(phaseIndex) && Number.isInteger(phaseIndex) && phaseIndex >= 0 && phaseIndex < phaseCount) {
+    return { kind, phaseIndex, ...fields, limit: clamp(limit, progressionRanges.limit.phase) }
+  }
+  return null
+}
+
+function decodeProgression(rules: unknown, phaseCount: number): ProgressionRule[] | undefined {
+  if (!Array.isArray(rules)) return undefined
+
+  const valid = rules
+    .map(rule => decodeProgressionRule(rule, phaseCount))
+    .filter((rule): rule is ProgressionRule => rule !== null)
+    .slice(0, MAX_SHARED_RULES)
+  return valid.length > 0 ? valid : undefined
+}
+
+// Null for anything malformed or from a newer version of the format
+export function decodeSharedExercise(encoded: string): SharedExercise | null {
+  const [version, data] = encoded.split('.')
+  if (Number(version) !== SHARE_VERSION || !data) return null
+
+  try {
+    const payload = JSON.parse(fromBase64Url(data))
+    if (!Array.isArray(payload.p) || payload.p.length === 0 || payload.p.length > MAX_SHARED_PHASES) return null
+
+    const phases = payload.p.map(decodePhase)
+    if (phases.some((phase: PatternPhase | null) => !phase)) return null
+
+    const name = typeof payload.n === 'string' ? payload.n.trim().slice(0, MAX_NAME_LENGTH) : ''
+    const tag = typeof payload.t === 'string' ? payload.t.trim().slice(0, 16) : ''
+    const progression = decodeProgression(payload.g, phases.length)
+
+    return {
+      name: name || 'Shared Pattern',
+      tag: tag || 'Custom',
+      color: isPaletteIndex(payload.c) ? exerciseColors[payload.c] : DEFAULT_COLOR,
+      icon: typeof payload.i === 'string' && Object.prototype.hasOwnProperty.call(exerciseIcons, payload.i) ? payload.i : undefined,
+      pattern: progression ? { phases, progression } : { phases }
+    }
+  } catch (error) {
+    console.error('Error decoding share link:', error)
+    return null
+  }
+}
+
+export function getShareLink(exercise: SharedExercise): string {
+  const { origin, pathname } = window.location
+  return `${origin}${pathname}#share=${encodeSharedExercise(exercise)}`
+}
+
+export function copyShareLink(exercise: SharedExercise): Promise<void> {
+  if (!navigator.clipboard) return Promise.reject(new Error('Clipboard unavailable'))
+  return navigator.clipboard.writeText(getShareLink(exercise))
+}
+
+// Add a shared exercise to the library under a name that's free there; returns the name used
+export function saveSharedExercise(exercise: SharedExercise): string {
+  const existingCustomExercises = JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]')
+  const name = getUniqueName(exercise.name, [...defaultExercises, ...existingCustomExercises])
+
+  const newExercise = {
+    id: `custom-${Date.now()}`,
+    ...exercise,
+    name,
+    description: 'Shared with you',
+    isDefault: false
+  }
+  localStorage.setItem('aora-custom-exercises', JSON.stringify([...existingCustomExercises, newExercise]))
+  window.dispatchEvent(new CustomEvent('aora-refresh-exercises'))
+  return name
+}
+
+// The encoded exercise in the current URL, if any
+export function getShareLinkPayload(): string | null {
+  const match = window.location.hash.match(/^#share=(.+)$/)
+  return match ? match[1] : null
+}
+
+// Take the link out of the address bar once it's been read, so a reload doesn't ask again
+export function clearShareLink(): void {
+  const { pathname, search } = window.location
+  window.history.replaceState(null, '', `${pathname}${search}`)
+}
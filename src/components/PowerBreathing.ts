@@ -0,0 +1,72 @@
+// Power-breathing rounds for AORA
+//
+// Each round is a run of quick, full breaths, a retention on empty lungs held
+// for as long as is comfortable, then a recovery breath held for 15 seconds.
+
+import { PatternPhase } from './BreathPattern'
+
+export interface PowerBreathingSettings {
+  rounds: number
+  breaths: number
+  breathDuration: number
+}
+
+// A finished power-breathing session as kept in the session history
+export interface RetentionRecord {
+  date: string
+  retentions: number[]
+}
+
+export interface RetentionBests {
+  longest: number
+  bestAverage: number
+}
+
+export const RECOVERY_HOLD = 15
+
+export const defaultPowerSettings: PowerBreathingSettings = { rounds: 3, breaths: 30, breathDuration: 3 }
+
+export const powerSafetyReminders = [
+  'Practice seated or lying down, never in or near water or while driving.',
+  'Tingling and light-headedness are common; stop if you feel unwell.'
+]
+
+// One round as a phase list; the retention has no set length and ends on a tap
+export function buildPowerRound({ breaths, breathDuration }: PowerBreathingSettings): PatternPhase[] {
+  const half = breathDuration / 2
+  const breathing = Array.from({ length: breaths }, () => [
+    { type: 'inhale' as const, duration: half },
+    { type: 'exhale' as const, duration: half }
+  ]).flat()
+
+  return [
+    ...breathing,
+    { type: 'retention', duration: 0 },
+    { type: 'inhale', duration: 2, label: 'Recovery Breath' },
+    { type: 'hold-full', duration: RECOVERY_HOLD, label: 'Recovery Hold' }
+  ]
+}
+
+export function getPowerSettings(): PowerBreathingSettings {
+  try {
+    const stored = localStorage.getItem('aora-power-breathing')
+    if (stored) return { ...defaultPowerSettings, ...JSON.parse(stored) }
+  } catch (error) {
+    console.error('Error parsing power breathing settings:', error)
+  }
+  return defaultPowerSettings
+}
+
+// Power-breathing sessions from the history, oldest first
+export function getRetentionRecords(history: { date: string, retentions?: number[] }[]): RetentionRecord[] {
+  return history
+    .filter((session): session is RetentionRecord => Array.isArray(session.retentions) && session.retentions.length > 0)
+    .map(session => ({ date: session.date, retentions: session.retentions }))
+}
+
+export function getRetentionBests(records: RetentionRecord[]): RetentionBests {
+  return records.reduce<RetentionBests>((bests, record) => ({
+    longest: Math.max(bests.longest, ...record.retentions),
+    bestAverage: Math.max(bests.bestAverage, record.retentions.reduce((sum, value) => sum + value, 0) / record.retentions.length)
+  }), { longest: 0, bestAverage: 0 })
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { motion, AnimatePresence } from 'motion/react'
+import { ArrowLeft, AlertTriangle, Play, Trophy, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { toast } from 'sonner@2.0.3'
+import { BreathingOrb } from './BreathingOrb'
+import { CustomSlider } from './CustomSlider'
+import { getPhaseLabel, isOpenPhase } from './BreathPattern'
+import { audioCueEngine } from './AudioCueEngine'
+import { hapticsEngine, getHapticSettings } from './HapticsEngine'
+import { voiceGuide, getVoiceSettings } from './VoiceGuide'
+import { useWakeLock } from './useWakeLock'
+import { appendSessionHistory } from './SessionLog'
+import {
+  PowerBreathingSettings,
+  RetentionBests,
+  buildPowerRound,
+  getPowerSettings,
+  getRetentionBests,
+  getRetentionRecords,
+  powerSafetyReminders
+} from './PowerBreathing'
+
+type PowerView = 'setup' | 'session' | 'summary'
+
+interface PowerBreathingScreenProps {
+  onBack: () => void
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const announce = (text: string) => {
+  const voiceSettings = getVoiceSettings()
+  if (voiceSettings.enabled) voiceGuide.announce(text, voiceSettings)
+}
+
+// Marks the retention and recovery changes, whatever the Sound Cues setting
+const signal = () => {
+  audioCueEngine.playSignal()
+  if (getHapticSettings().enabled) hapticsEngine.playSignal()
+}
+
+const loadHistory = () => {
+  try {
+    const stored = localStorage.getItem('aora-session-history')
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error('Error parsing session history:', error)
+  }
+  return []
+}
+
+export function PowerBreathingScreen({ onBack }: PowerBreathingScreenProps) {
+  const [view, setView] = useState<PowerView>('setup')
+  const [settings, setSettings] = useState<PowerBreathingSettings>(getPowerSettings)
+  const [bests] = useState<RetentionBests>(() => getRetentionBests(getRetentionRecords(loadHistory())))
+  const [now, setNow] = useState(Date.now())
+
+  const [roundIndex, setRoundIndex] = useState(0)
+  const [phaseIndex, setPhaseIndex] = useState(0)
+  const [phaseStartedAt, setPhaseStartedAt] = useState(0)
+  const [retentions, setRetentions] = useState<number[]>([])
+  const startedAtRef = useRef(0)
+
+  const phases = useMemo(() => buildPowerRound(settings), [settings])
+  const phase = phases[phaseIndex]
+  const phaseElapsed = Math.max(0, (now - phaseStartedAt) / 1000)
+  const breathCount = Math.min(settings.breaths, Math.floor(phaseIndex / 2) + 1)
+
+  useWakeLock(view === 'session')
+
+  useEffect(() => {
+    localStorage.setItem('aora-power-breathing', JSON.stringify(settings))
+  }, [settings])
+
+  // Phases are timed against the clock, the interval only redraws them
+  useEffect(() => {
+    if (view !== 'session') return
+    const interval = window.setInterval(() => setNow(Date.now()), 100)
+    return () => clearInterval(interval)
+  }, [view])
+
+  useEffect(() => () => voiceGuide.cancel(), [])
+
+  const finishSession = (results: number[], completed: boolean) => {
+    setRetentions(results)
+    setView('summary')
+    if (results.length === 0) return
+
+    const duration = Math.round((Date.now() - startedAtRef.current) / 1000)
+    const sessionRecord = {
+      date: new Date().toISOString(),
+      duration,
+      activeTime: duration,
+      pausedTime: 0,
+      exercise: 'Power Breathing',
+      cycles: results.length,
+      completed,
+      retentions: results
+    }
+
+    if (!appendSessionHistory(sessionRecord)) {
+      toast.error("Couldn't save this session. Your device's storage is full.")
+    }
+  }
+
+  // Step to the phase after `index`, rolling into the next round or finishing
+  const enterPhase = (index: number, startedAt: number, results: number[]) => {
+    if (index < phases.length) {
+      setPhaseIndex(index)
+      setPhaseStartedAt(startedAt)
+
+      const next = phases[index]
+      if (isOpenPhase(next.type)) {
+        signal()
+        announce('Let go and hold.')
+      } else if (next.type === 'inhale' && next.label) {
+        signal()
+        announce('Breathe in fully and hold.')
+      }
+      return
+    }
+
+    signal()
+    if (roundIndex >= settings.rounds - 1) {
+      announce('Final round complete.')
+      finishSession(results, true)
+      return
+    }
+
+    setRoundIndex(roundIndex + 1)
+    setPhaseIndex(0)
+    setPhaseStartedAt(startedAt)
+    announce(`Round ${roundIndex + 2}.`)
+  }
+
+  // Timed phases end by themselves; the retention waits for a tap
+  useEffect(() => {
+    if (view !== 'session' || !phase || isOpenPhase(phase.type)) return
+    if (phaseElapsed < phase.duration) return
+
+    enterPhase(phaseIndex + 1, phaseStartedAt + phase.duration * 1000, retentions)
+  }, [now])
+
+  const endRetention = () => {
+    if (view !== 'session' || !phase || !isOpenPhase(phase.type)) return
+
+    const updated = [...retentions, Math.round(phaseElapsed)]
+    setRetentions(updated)
+    enterPhase(phaseIndex + 1, Date.now(), updated)
+  }
+
+  const startSession = () => {
+    const startedAt = Date.now()
+    startedAtRef.current = startedAt
+    setRetentions([])
+    setRoundIndex(0)
+    setPhaseIndex(0)
+    setPhaseStartedAt(startedAt)
+    setNow(startedAt)
+    setView('session')
+    announce('Round 1. Breathe in deeply, let it go.')
+  }
+
+  const handleStop = () => {
+    voiceGuide.cancel()
+    // A retention in progress still counts
+    const results = phase && isOpenPhase(phase.type) ? [...retentions, Math.round(phaseElapsed)] : retentions
+    finishSession(results, false)
+  }
+
+  if (view === 'session' && phase) {
+    const isRetention = isOpenPhase(phase.type)
+
+    return (
+      <div className="min-h-screen bg-background relative overflow-hidden">
+        {/* Header */}
+        <div className="absolute top-0 left-0 right-0 pt-16 pb-4 px-6 z-10">
+          <div className="flex justify-between items-center">
+            <div className="glass-card px-4 py-3 rounded-2xl">
+              <div className="text-white/80 font-medium">Round {roundIndex + 1}/{settings.rounds}</div>
+              <div className="text-xs text-white/50">Power Breathing</div>
+            </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleStop}
+              className="p-3 text-white/40 hover:text-white/70 glass-card rounded-2xl"
+            >
+              <X className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        {/* The whole area below the header ends a retention */}
+        <div
+          className="flex flex-col items-center justify-center min-h-screen px-6 relative"
+          onClick={endRetention}
+        >
+          <BreathingOrb size="xl" isActive phase={phase.type} />
+
+          <div className="text-center" style={{ marginTop: 64 }}>
+            <AnimatePresence mode="wait">
+              <motion.h2
+                key={isRetention ? 'retention' : getPhaseLabel(phase)}
+                className="text-2xl tracking-wide mb-2"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                transition={{ duration: 0.2 }}
+              >
+                {getPhaseLabel(phase)}
+              </motion.h2>
+            </AnimatePresence>
+
+            {isRetention ? (
+              <>
+                <p className="text-4xl font-light tabular-nums">{formatTime(phaseElapsed)}</p>
+                <p className="text-white/60 mt-2">Tap anywhere when you need to breathe</p>
+              </>
+            ) : phase.label ? (
+              <p className="text-4xl font-light tabular-nums">{Math.ceil(phase.duration - phaseElapsed)}</p>
+            ) : (
+              <p className="text-white/60 tabular-nums">Breath {breathCount} of {settings.breaths}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background overflow-y-auto">
+      {/* Header */}
+      <motion.div
+        className="flex items-center justify-between pt-16 pb-6 px-6"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+
+        <div className="text-center">
+          <h1 className="text-xl">Power Breathing</h1>
+          <p className="text-sm text-white/60">Quick breaths, then hold on empty</p>
+        </div>
+
+        <div className="w-9" /> {/* Spacer */}
+      </motion.div>
+
+      <div className="px-6 space-y-6 pb-32">
+        {view === 'setup' && (
+          <>
+            <Card className="p-5 glass-card border-white/20">
+              <div className="flex items-center space-x-2 mb-3">
+                <AlertTriangle className="w-4 h-4 text-amber-400" />
+                <h3 className="text-sm font-medium text-amber-400">Before you start</h3>
+              </div>
+              <ul className="space-y-2">
+                {powerSafetyReminders.map((reminder) => (
+                  <li key={reminder} className="text-xs text-white/70 leading-relaxed">{reminder}</li>
+                ))}
+              </ul>
+            </Card>
+
+            <Card className="p-6 glass-card border-white/20 space-y-6">
+              <div>
+                <label className="text-sm text-white/80 tracking-wide">Rounds</label>
+                <div className="flex gap-2 mt-3">
+                  {[3, 4].map((rounds) => (
+                    <Button
+                      key={rounds}
+                      variant={settings.rounds === rounds ? 'secondary' : 'ghost'}
+                      onClick={() => setSettings(prev => ({ ...prev, rounds }))}
+                      className="flex-1 rounded-xl"
+                    >
+                      {rounds} rounds
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <CustomSlider
+                label="Breaths per Round"
+                value={settings.breaths}
+                onChange={(breaths) => setSettings(prev => ({ ...prev, breaths }))}
+                min={20}
+                max={40}
+                step={5}
+                color="from-blue-400 to-blue-600"
+                unit="breaths"
+              />
+              <CustomSlider
+                label="Breath Length"
+                value={settings.breathDuration}
+                onChange={(breathDuration) => setSettings(prev => ({ ...prev, breathDuration }))}
+                min={2}
+                max={4}
+                step={0.5}
+                color="from-blue-400 to-blue-600"
+                unit="s"
+              />
+            </Card>
+
+            {bests.longest > 0 && (
+              <Card className="p-6 bg-white/[0.02] border-white/10">
+                <div className="flex items-center space-x-2 mb-4">
+                  <Trophy className="w-4 h-4 text-amber-400" />
+                  <h3 className="text-lg">Personal Bests</h3>
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-center">
+                  <div>
+                    <p className="text-2xl font-light tabular-nums">{formatTime(bests.longest)}</p>
+                    <p className="text-xs text-white/50 uppercase tracking-wide">Longest Hold</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-light tabular-nums">{formatTime(bests.bestAverage)}</p>
+                    <p className="text-xs text-white/50 uppercase tracking-wide">Best Average</p>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            <Button
+              onClick={startSession}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700 aora-glow"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              Begin
+            </Button>
+          </>
+        )}
+
+        {view === 'summary' && (
+          <>
+            <Card className="p-6 glass-card border-white/20">
+              <h3 className="text-lg mb-4">Retention Times</h3>
+              {retentions.length === 0 ? (
+                <p className="text-sm text-white/60">Stopped before the first retention.</p>
+              ) : (
+                <div className="space-y-2">
+                  {retentions.map((seconds, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm tabular-nums">
+                      <span className="text-white/50">Round {index + 1}</span>
+                      <span className="text-white/90">{formatTime(seconds)}</span>
+                      {seconds > bests.longest && bests.longest > 0 ? (
+                        <span className="text-xs text-amber-400">New best</span>
+                      ) : (
+                        <span />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            <Button
+              onClick={onBack}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700"
+            >
+              Done
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
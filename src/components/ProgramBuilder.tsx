@@ -0,0 +1,338 @@
+import { useState, useEffect } from 'react'
+import { motion } from 'motion/react'
+import { ArrowLeft, ChevronDown, ChevronUp, Edit, Layers, Play, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { toast } from 'sonner@2.0.3'
+import { CustomSlider } from './CustomSlider'
+import { BreathPattern, formatPattern, getSessionDuration } from './BreathPattern'
+import { defaultExercises, normalizeExercise } from './UpdatedExerciseLibrary'
+import {
+  MAX_STAGES,
+  ProgramStage,
+  SessionProgram,
+  defaultPrograms,
+  getStageCycles,
+  loadPrograms,
+  savePrograms
+} from './SessionProgram'
+
+interface ExerciseOption {
+  name: string
+  pattern: BreathPattern
+}
+
+interface ProgramBuilderProps {
+  onBack: () => void
+  onStartProgram: (program: SessionProgram) => void
+}
+
+const stageNames = ['Warm-up', 'Main Set', 'Cool-down']
+
+const createStage = (exercise: ExerciseOption, index: number): ProgramStage => ({
+  name: stageNames[index] ?? `Stage ${index + 1}`,
+  exerciseName: exercise.name,
+  pattern: exercise.pattern,
+  target: { type: 'minutes', value: 2 }
+})
+
+const getProgramMinutes = (program: SessionProgram) => Math.max(1, Math.round(
+  program.stages.reduce((total, stage) => total + getSessionDuration(stage.pattern, getStageCycles(stage)), 0) / 60
+))
+
+export function ProgramBuilder({ onBack, onStartProgram }: ProgramBuilderProps) {
+  const [programs, setPrograms] = useState<SessionProgram[]>([])
+  const [exercises, setExercises] = useState<ExerciseOption[]>(defaultExercises)
+  const [draft, setDraft] = useState<SessionProgram>(() => ({
+    id: '',
+    name: '',
+    stages: [createStage(defaultExercises[0], 0)]
+  }))
+
+  useEffect(() => {
+    setPrograms(loadPrograms())
+
+    const customStored = localStorage.getItem('aora-custom-exercises')
+    if (customStored) {
+      try {
+        setExercises([...defaultExercises, ...JSON.parse(customStored).map(normalizeExercise)])
+      } catch (error) {
+        console.error('Error parsing custom exercises:', error)
+      }
+    }
+  }, [])
+
+  const updateStage = (index: number, changes: Partial<ProgramStage>) => {
+    setDraft(prev => ({
+      ...prev,
+      stages: prev.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage))
+    }))
+  }
+
+  const selectExercise = (index: number, name: string) => {
+    const exercise = exercises.find(option => option.name === name)
+    if (exercise) updateStage(index, { exerciseName: exercise.name, pattern: exercise.pattern })
+  }
+
+  const addStage = () => {
+    if (draft.stages.length >= MAX_STAGES) return
+    setDraft(prev => ({ ...prev, stages: [...prev.stages, createStage(exercises[0], prev.stages.length)] }))
+  }
+
+  const removeStage = (index: number) => {
+    if (draft.stages.length <= 1) return
+    setDraft(prev => ({ ...prev, stages: prev.stages.filter((_, i) => i !== index) }))
+  }
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= draft.stages.length) return
+
+    setDraft(prev => {
+      const stages = [...prev.stages]
+      ;[stages[index], stages[target]] = [stages[target], stages[index]]
+      return { ...prev, stages }
+    })
+  }
+
+  // Default programs are edited as a copy
+  const editProgram = (program: SessionProgram) => {
+    setDraft(program.isDefault ? { ...program, id: '', name: `${program.name} (Copy)`, isDefault: false } : program)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const deleteProgram = (program: SessionProgram) => {
+    const updated = programs.filter(existing => existing.id !== program.id)
+    setPrograms(updated)
+    savePrograms(updated)
+    toast.success(`Deleted "${program.name}".`)
+  }
+
+  const handleSave = () => {
+    const name = draft.name.trim()
+    if (!name) {
+      toast.error('Give your program a name first.')
+      return
+    }
+
+    const program: SessionProgram = { ...draft, id: draft.id || `program-${Date.now()}`, name }
+    const updated = programs.some(existing => existing.id === program.id)
+      ? programs.map(existing => (existing.id === program.id ? program : existing))
+      : [...programs, program]
+
+    setPrograms(updated)
+    savePrograms(updated)
+    setDraft(program)
+    toast.success(`Saved "${name}".`)
+  }
+
+  const handleStart = () => {
+    onStartProgram({ ...draft, name: draft.name.trim() || 'Custom Program' })
+  }
+
+  const renderProgramCard = (program: SessionProgram, index: number) => (
+    <motion.div
+      key={program.id}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.05, duration: 0.6 }}
+    >
+      <Card className="p-5 glass-card">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <h3 className="font-medium text-lg mb-1">{program.name}</h3>
+            <p className="text-sm text-muted-foreground">
+              {program.stages.map(stage => stage.name).join(' → ')}
+            </p>
+            <p className="text-xs text-white/40 mt-1">About {getProgramMinutes(program)} min</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => editProgram(program)} className="p-2">
+              <Edit className="w-4 h-4" />
+            </Button>
+            {!program.isDefault && (
+              <Button variant="ghost" size="sm" onClick={() => deleteProgram(program)} className="p-2 text-white/60">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => onStartProgram(program)}
+              className="rounded-xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700"
+            >
+              <Play className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  )
+
+  return (
+    <div className="min-h-screen bg-background overflow-y-auto">
+      {/* Header */}
+      <motion.div
+        className="flex items-center justify-between pt-16 pb-6 px-6"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+
+        <div className="text-center">
+          <h1 className="text-xl">Programs</h1>
+          <p className="text-sm text-white/60">Chain patterns into one practice</p>
+        </div>
+
+        <div className="w-9" /> {/* Spacer */}
+      </motion.div>
+
+      <div className="px-6 space-y-8 pb-32">
+        {/* Builder */}
+        <Card className="p-6 glass-card border-white/20 space-y-6">
+          <div className="flex items-center space-x-2">
+            <Layers className="w-5 h-5 text-white/60" />
+            <h2 className="font-medium text-lg">{draft.id ? 'Edit Program' : 'New Program'}</h2>
+          </div>
+
+          <Input
+            placeholder="e.g., Evening Wind-down"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            maxLength={30}
+            className="bg-white/5 border-white/10 rounded-xl placeholder:text-white/30"
+          />
+
+          {draft.stages.map((stage, index) => (
+            <div key={index} className="p-4 rounded-xl border border-white/10 bg-white/[0.02] space-y-4">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={stage.name}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                  maxLength={20}
+                  className="flex-1 bg-white/5 border-white/10 rounded-xl text-sm"
+                />
+                <Button variant="ghost" size="sm" onClick={() => moveStage(index, -1)} disabled={index === 0} className="p-2">
+                  <ChevronUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveStage(index, 1)}
+                  disabled={index === draft.stages.length - 1}
+                  className="p-2"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeStage(index)}
+                  disabled={draft.stages.length <= 1}
+                  className="p-2 text-white/60"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <Select value={stage.exerciseName} onValueChange={(name: string) => selectExercise(index, name)}>
+                <SelectTrigger className="bg-white/5 border-white/10 rounded-xl text-sm">
+                  <SelectValue placeholder="Choose an exercise" />
+                </SelectTrigger>
+                <SelectContent>
+                  {exercises.map((exercise) => (
+                    <SelectItem key={exercise.name} value={exercise.name}>
+                      {exercise.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground font-mono">{formatPattern(stage.pattern)}</p>
+
+              <div className="flex gap-2">
+                {(['cycles', 'minutes'] as const).map((type) => (
+                  <Button
+                    key={type}
+                    variant={stage.target.type === type ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => updateStage(index, { target: type === 'cycles' ? { type, value: 10 } : { type, value: 2 } })}
+                    className="rounded-xl capitalize"
+                  >
+                    {type}
+                  </Button>
+                ))}
+              </div>
+
+              {stage.target.type === 'cycles' ? (
+                <CustomSlider
+                  label="Cycles"
+                  value={stage.target.value}
+                  onChange={(value) => updateStage(index, { target: { type: 'cycles', value } })}
+                  min={1}
+                  max={60}
+                  step={1}
+                  color="from-emerald-500 to-teal-600"
+                  unit="cycles"
+                />
+              ) : (
+                <CustomSlider
+                  label="Duration"
+                  value={stage.target.value}
+                  onChange={(value) => updateStage(index, { target: { type: 'minutes', value } })}
+                  min={1}
+                  max={30}
+                  step={1}
+                  color="from-emerald-500 to-teal-600"
+                  unit="min"
+                />
+              )}
+            </div>
+          ))}
+
+          {draft.stages.length < MAX_STAGES && (
+            <Button
+              variant="outline"
+              onClick={addStage}
+              className="w-full h-12 rounded-xl border-white/20 border-dashed hover:bg-white/5"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Stage
+            </Button>
+          )}
+
+          <p className="text-xs text-white/50">About {getProgramMinutes(draft)} min in total</p>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={handleSave}
+              className="flex-1 h-12 rounded-xl border-white/20 hover:bg-white/5"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+            <Button
+              onClick={handleStart}
+              className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700 aora-glow"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Start
+            </Button>
+          </div>
+        </Card>
+
+        {/* Saved programs */}
+        <div>
+          <h2 className="text-lg font-medium mb-4">Saved Programs</h2>
+          <div className="space-y-3">
+            {[...defaultPrograms, ...programs].map((program, index) => renderProgramCard(program, index))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,27 +1,62 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { motion } from 'motion/react'
-import { Flame, Target, TrendingUp, BarChart3 } from 'lucide-react'
+import { Flame, Target, TrendingUp, BarChart3, Trophy, Activity, Gauge, Hand } from 'lucide-react'
+import { Line, LineChart, XAxis, YAxis } from 'recharts@2.15.2'
 import { Button } from './ui/button'
 import { Progress } from './ui/progress'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart'
+import { getRetentionBests, getRetentionRecords } from './PowerBreathing'
+import { loadResonanceResults } from './Resonance'
+import { loadBaselines } from './BreathingBaseline'
+import { AdherenceResult } from './Adherence'
 
 interface SessionRecord {
   date: string
   duration: number
+  activeTime?: number
   exercise: string
   cycles: number
+  retentions?: number[]
+  adherence?: AdherenceResult
+}
+
+const baselineChartConfig = {
+  rate: { label: 'Breaths/min', color: '#60a5fa' }
+} satisfies ChartConfig
+
+// One line per power-breathing round, so rounds can be compared across sessions
+const retentionChartConfig = {
+  round1: { label: 'Round 1', color: '#60a5fa' },
+  round2: { label: 'Round 2', color: '#a78bfa' },
+  round3: { label: 'Round 3', color: '#34d399' },
+  round4: { label: 'Round 4', color: '#fbbf24' }
+} satisfies ChartConfig
+
+const adherenceChartConfig = {
+  score: { label: 'Score', color: '#60a5fa' }
+} satisfies ChartConfig
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
 interface ProgressDashboardProps {
   onStartPractice: () => void
+  onAssessResonance: () => void
+  onMeasureBaseline: () => void
 }
 
-export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
+export function ProgressDashboard({ onStartPractice, onAssessResonance, onMeasureBaseline }: ProgressDashboardProps) {
   const [userName] = useState(() => localStorage.getItem('aora-user-name') || 'Friend')
   const [sessions, setSessions] = useState<SessionRecord[]>([])
   const [currentStreak, setCurrentStreak] = useState(0)
   const [todayMinutes, setTodayMinutes] = useState(0)
   const [todaySessions, setTodaySessions] = useState(0)
   const [weeklyData, setWeeklyData] = useState<number[]>([0, 0, 0, 0, 0, 0, 0])
+  const [resonance] = useState(() => loadResonanceResults().slice(-1)[0] ?? null)
+  const [baselines] = useState(loadBaselines)
   const [mostUsedTechnique, setMostUsedTechnique] = useState<{ name: string, percentage: number } | null>(null)
 
   // Daily goals
@@ -42,6 +77,9 @@ export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
     }
   }, [])
 
+  // Sessions recorded before pauses were tracked only have the wall-clock duration
+  const getActiveTime = (session: SessionRecord) => session.activeTime ?? session.duration
+
   const calculateStats = (sessionData: SessionRecord[]) => {
     const today = new Date().toDateString()
     const todaysSessions = sessionData.filter(session => 
@@ -49,7 +87,7 @@ export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
     )
 
     // Calculate today's stats
-    const totalMinutesToday = todaysSessions.reduce((total, session) => total + session.duration, 0)
+    const totalMinutesToday = todaysSessions.reduce((total, session) => total + getActiveTime(session), 0)
     setTodayMinutes(Math.round(totalMinutesToday / 60))
     setTodaySessions(todaysSessions.length)
 
@@ -107,7 +145,7 @@ export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
       
       const dayMinutes = sessionData
         .filter(session => new Date(session.date).toDateString() === dateString)
-        .reduce((total, session) => total + session.duration, 0)
+        .reduce((total, session) => total + getActiveTime(session), 0)
       
       weekData[i] = Math.round(dayMinutes / 60)
     }
@@ -136,6 +174,23 @@ export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
     }
   }
 
+  const retentionRecords = useMemo(() => getRetentionRecords(sessions), [sessions])
+  const retentionBests = useMemo(() => getRetentionBests(retentionRecords), [retentionRecords])
+  const retentionData = useMemo(() => retentionRecords.map((record, index) => record.retentions.reduce<Record<string, number | string>>(
+    (row, seconds, round) => ({ ...row, [`round${round + 1}`]: seconds }),
+    { session: index + 1, date: new Date(record.date).toLocaleDateString() }
+  )), [retentionRecords])
+
+  // Follow-along scores in session order, for the chart and the latest/best figures
+  const adherenceData = useMemo(() => sessions
+    .filter((session): session is SessionRecord & { adherence: AdherenceResult } => !!session.adherence)
+    .map((session, index) => ({
+      session: index + 1,
+      date: new Date(session.date).toLocaleDateString(),
+      score: session.adherence.score
+    })), [sessions])
+  const bestAdherence = Math.max(0, ...adherenceData.map(entry => entry.score))
+
   const maxWeeklyMinutes = Math.max(...weeklyData, 1)
   const dayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
 
@@ -245,6 +300,95 @@ export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
           </div>
         </motion.div>
 
+        {/* Resonant rate */}
+        <motion.div
+          className="glass-card rounded-2xl p-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.8 }}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Activity className="w-5 h-5 text-blue-400" />
+              <div>
+                <h3>Resonant Rate</h3>
+                <p className="text-sm text-muted-foreground">
+                  {resonance
+                    ? `Measured ${new Date(resonance.date).toLocaleDateString()}`
+                    : 'Find the pace that calms you most'}
+                </p>
+              </div>
+            </div>
+            {resonance ? (
+              <div className="text-right">
+                <div className="text-2xl bg-gradient-to-r from-blue-400 to-violet-500 bg-clip-text text-transparent tabular-nums">
+                  {resonance.rate}
+                </div>
+                <p className="text-xs text-muted-foreground">breaths/min</p>
+              </div>
+            ) : null}
+          </div>
+          <Button
+            variant="outline"
+            onClick={onAssessResonance}
+            className="w-full mt-4 rounded-xl border-white/20 hover:bg-white/5"
+          >
+            {resonance ? 'Retake Assessment' : 'Start Assessment'}
+          </Button>
+        </motion.div>
+
+        {/* Natural rhythm */}
+        <motion.div
+          className="glass-card rounded-2xl p-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.8 }}
+        >
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <Gauge className="w-5 h-5 text-blue-400" />
+              <div>
+                <h3>Natural Rhythm</h3>
+                <p className="text-sm text-muted-foreground">
+                  {baselines.length > 0
+                    ? `In : Out 1 : ${baselines[baselines.length - 1].ratio} · ${baselines[baselines.length - 1].variability}% variability`
+                    : 'Your resting breath, measured in a minute'}
+                </p>
+              </div>
+            </div>
+            {baselines.length > 0 && (
+              <div className="text-right">
+                <div className="text-2xl bg-gradient-to-r from-blue-400 to-violet-500 bg-clip-text text-transparent tabular-nums">
+                  {baselines[baselines.length - 1].rate}
+                </div>
+                <p className="text-xs text-muted-foreground">breaths/min</p>
+              </div>
+            )}
+          </div>
+
+          {baselines.length > 1 && (
+            <ChartContainer config={baselineChartConfig} style={{ aspectRatio: 'auto', height: 140 }}>
+              <LineChart
+                data={baselines.map(baseline => ({ ...baseline, day: new Date(baseline.date).toLocaleDateString() }))}
+                margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+              >
+                <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} domain={['auto', 'auto']} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="rate" stroke="var(--color-rate)" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ChartContainer>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={onMeasureBaseline}
+            className="w-full mt-4 rounded-xl border-white/20 hover:bg-white/5"
+          >
+            {baselines.length > 0 ? 'Measure Again' : 'Measure Now'}
+          </Button>
+        </motion.div>
+
         {/* Daily Goal Rings */}
         <motion.div
           className="grid grid-cols-2 gap-4"
@@ -398,6 +542,104 @@ export function ProgressDashboard({ onStartPractice }: ProgressDashboardProps) {
             </div>
           </motion.div>
         )}
+
+        {/* Power-breathing retention */}
+        {retentionRecords.length > 0 && (
+          <motion.div
+            className="glass-card rounded-2xl p-6"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5, duration: 0.8 }}
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <Trophy className="w-5 h-5 text-amber-400" />
+              <h3>Breath Retention</h3>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6 text-center">
+              <div>
+                <div className="text-2xl bg-gradient-to-r from-amber-400 to-orange-400 bg-clip-text text-transparent tabular-nums">
+                  {formatSeconds(retentionBests.longest)}
+                </div>
+                <p className="text-xs text-muted-foreground">Longest Hold</p>
+              </div>
+              <div>
+                <div className="text-2xl bg-gradient-to-r from-amber-400 to-orange-400 bg-clip-text text-transparent tabular-nums">
+                  {formatSeconds(retentionBests.bestAverage)}
+                </div>
+                <p className="text-xs text-muted-foreground">Best Session Average</p>
+              </div>
+            </div>
+
+            <ChartContainer config={retentionChartConfig} style={{ aspectRatio: 'auto', height: 180 }}>
+              <LineChart data={retentionData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <XAxis dataKey="session" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={formatSeconds} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => payload[0]?.payload.date}
+                      formatter={(value, name) => `${retentionChartConfig[name as keyof typeof retentionChartConfig]?.label}: ${formatSeconds(Number(value))}`}
+                    />
+                  }
+                />
+                {Object.keys(retentionChartConfig).map((key) => (
+                  <Line
+                    key={key}
+                    dataKey={key}
+                    stroke={`var(--color-${key})`}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </motion.div>
+        )}
+
+        {/* Follow-along adherence */}
+        {adherenceData.length > 0 && (
+          <motion.div
+            className="glass-card rounded-2xl p-6"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.55, duration: 0.8 }}
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <Hand className="w-5 h-5 text-blue-400" />
+              <h3>Follow-Along</h3>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6 text-center">
+              <div>
+                <div className="text-2xl bg-gradient-to-r from-blue-400 to-violet-500 bg-clip-text text-transparent tabular-nums">
+                  {adherenceData[adherenceData.length - 1].score}
+                </div>
+                <p className="text-xs text-muted-foreground">Latest Score</p>
+              </div>
+              <div>
+                <div className="text-2xl bg-gradient-to-r from-blue-400 to-violet-500 bg-clip-text text-transparent tabular-nums">
+                  {bestAdherence}
+                </div>
+                <p className="text-xs text-muted-foreground">Best Score</p>
+              </div>
+            </div>
+
+            {adherenceData.length > 1 && (
+              <ChartContainer config={adherenceChartConfig} style={{ aspectRatio: 'auto', height: 160 }}>
+                <LineChart data={adherenceData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                  <XAxis dataKey="session" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis domain={[0, 100]} ticks={[0, 50, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.date} />}
+                  />
+                  <Line dataKey="score" stroke="var(--color-score)" strokeWidth={2} dot={{ r: 3 }} />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </motion.div>
+        )}
       </div>
     </div>
   )
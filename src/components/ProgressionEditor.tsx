@@ -0,0 +1,172 @@
+import { useMemo } from 'react'
+import { Plus, Trash2, TrendingUp } from 'lucide-react'
+import { Bar, BarChart, XAxis, YAxis } from 'recharts@2.15.2'
+import { Button } from './ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart'
+import { CustomSlider } from './CustomSlider'
+import { BreathPattern, ProgressionRule, describeProgression, getBreathsPerMinute, getEffectivePattern, getPhaseLabel, phaseChartColors, progressionRanges } from './BreathPattern'
+
+const MAX_RULES = 4
+
+interface ProgressionEditorProps {
+  pattern: BreathPattern
+  cycles: number
+  onChange: (progression: ProgressionRule[]) => void
+}
+
+export function ProgressionEditor({ pattern, cycles, onChange }: ProgressionEditorProps) {
+  const rules = pattern.progression ?? []
+
+  const updateRule = (index: number, changes: Partial<ProgressionRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } as ProgressionRule : rule)))
+  }
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index))
+  }
+
+  const addPhaseRule = () => {
+    const exhaleIndex = pattern.phases.findIndex(phase => phase.type === 'exhale')
+    const phaseIndex = Math.max(0, exhaleIndex)
+    const duration = pattern.phases[phaseIndex]?.duration ?? 4
+    onChange([...rules, { kind: 'phase', phaseIndex, step: 0.5, every: 3, limit: duration + 4 }])
+  }
+
+  const addRateRule = () => {
+    const rate = Math.round(getBreathsPerMinute(pattern) * 2) / 2
+    onChange([...rules, { kind: 'rate', step: -0.5, every: 3, limit: Math.max(2, rate - 1.5) }])
+  }
+
+  // One stacked bar per cycle, one segment per phase
+  const { data, config } = useMemo(() => {
+    const config: ChartConfig = {}
+    pattern.phases.forEach((phase, index) => {
+      config[`phase${index}`] = { label: getPhaseLabel(phase), color: phaseChartColors[phase.type] }
+    })
+
+    const data = Array.from({ length: Math.min(cycles, 120) }, (_, cycle) => {
+      const effective = getEffectivePattern(pattern, cycle)
+      return effective.phases.reduce<Record<string, number>>(
+        (row, phase, index) => ({ ...row, [`phase${index}`]: phase.duration }),
+        { cycle: cycle + 1 }
+      )
+    })
+
+    return { data, config }
+  }, [pattern, cycles])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm text-white/80 tracking-wide flex items-center">
+          <TrendingUp className="w-4 h-4 mr-2" />
+          Progression
+        </label>
+        <span className="text-xs text-white/50">
+          {rules.length === 0 ? 'Same pattern throughout' : `${rules.length} ${rules.length === 1 ? 'rule' : 'rules'}`}
+        </span>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="p-4 rounded-xl border border-white/10 bg-white/[0.02] space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-white/70 leading-relaxed">{describeProgression(rule, pattern)}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeRule(index)}
+              className="p-2 text-white/60"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {rule.kind === 'phase' && (
+            <Select
+              value={String(rule.phaseIndex)}
+              onValueChange={(value: string) => updateRule(index, { phaseIndex: Number(value) })}
+            >
+              <SelectTrigger className="bg-white/5 border-white/10 rounded-xl text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pattern.phases.map((phase, phaseIndex) => (
+                  <SelectItem key={phaseIndex} value={String(phaseIndex)}>
+                    {phaseIndex + 1}. {getPhaseLabel(phase)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <CustomSlider
+            label={rule.kind === 'phase' ? 'Change per Step' : 'Rate Change per Step'}
+            value={rule.step}
+            onChange={(step) => updateRule(index, { step })}
+            min={progressionRanges.step.min}
+            max={progressionRanges.step.max}
+            step={0.5}
+            color="from-violet-400 to-purple-600"
+            unit={rule.kind === 'phase' ? 's' : 'bpm'}
+          />
+          <CustomSlider
+            label="Every"
+            value={rule.every}
+            onChange={(every) => updateRule(index, { every })}
+            min={progressionRanges.every.min}
+            max={progressionRanges.every.max}
+            step={1}
+            color="from-violet-400 to-purple-600"
+            unit="cycles"
+          />
+          <CustomSlider
+            label={rule.step >= 0 ? 'Up To' : 'Down To'}
+            value={rule.limit}
+            onChange={(limit) => updateRule(index, { limit })}
+            min={progressionRanges.limit[rule.kind].min}
+            max={progressionRanges.limit[rule.kind].max}
+            step={0.5}
+            color="from-violet-400 to-purple-600"
+            unit={rule.kind === 'phase' ? 's' : 'bpm'}
+          />
+        </div>
+      ))}
+
+      {rules.length < MAX_RULES && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={addPhaseRule}
+            className="flex-1 h-10 rounded-xl border-white/20 border-dashed hover:bg-white/5 text-xs"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Stretch a Phase
+          </Button>
+          <Button
+            variant="outline"
+            onClick={addRateRule}
+            className="flex-1 h-10 rounded-xl border-white/20 border-dashed hover:bg-white/5 text-xs"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Change Rate
+          </Button>
+        </div>
+      )}
+
+      {/* Preview of every cycle in the session */}
+      {rules.length > 0 && data.length > 0 && (
+        <ChartContainer config={config} style={{ aspectRatio: 'auto', height: 160 }}>
+          <BarChart data={data} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="cycle" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={28} unit="s" />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Cycle ${payload[0]?.payload.cycle}`} />} />
+            {pattern.phases.map((_, index) => (
+              <Bar key={index} dataKey={`phase${index}`} stackId="cycle" fill={`var(--color-phase${index})`} />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,336 @@
+// QR code encoder for AORA share links
+//
+// Encodes text as a byte-mode QR code entirely on the device, so a pattern can
+// be projected or printed without any network service. Follows ISO/IEC 18004:
+// the smallest version that fits is chosen, data is split into Reed-Solomon
+// blocks, and the mask with the lowest penalty score is applied.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+// true is a dark module; indexed [row][column]
+export type QrModules = boolean[][]
+
+const errorCorrectionIndex: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 }
+const formatBitsFor: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Per error correction level, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+]
+
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+]
+
+const MAX_VERSION = 40
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0
+
+// Modules left for data and error correction once the function patterns are placed
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function getNumDataCodewords(version: number, level: QrErrorCorrection): number {
+  const index = errorCorrectionIndex[level]
+  return Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[index][version] * NUM_ERROR_CORRECTION_BLOCKS[index][version]
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function multiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = multiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Split into blocks, add error correction to each, then interleave the blocks
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const index = errorCorrectionIndex[level]
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[index][version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[index][version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+  const divisor = reedSolomonDivisor(blockEccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1))
+    offset += blockData.length
+    const ecc = reedSolomonRemainder(blockData, divisor)
+    // Short blocks get a placeholder so every block lines up when interleaving
+    if (i < numShortBlocks) blockData.push(0)
+    blocks.push([...blockData, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+// Byte-mode segment, terminator and padding, as codewords
+function encodeData(bytes: Uint8Array, version: number, level: QrErrorCorrection): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, version < 10 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacity = getNumDataCodewords(version, level) * 8
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+  const result = [6]
+  for (let position = size - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position)
+  }
+  return result
+}
+
+const maskPatterns: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+]
+
+const FINDER_LIKE = [true, false, true, true, true, false, true, false, false, false, false]
+
+// Lower is easier for scanners: penalizes long runs, 2x2 blocks, finder look-alikes and imbalance
+function getPenaltyScore(modules: QrModules): number {
+  const size = modules.length
+  let penalty = 0
+  let dark = 0
+
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x]))
+  ]
+  for (const line of lines) {
+    let runLength = 1
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        runLength++
+        continue
+      }
+      if (runLength >= 5) penalty += runLength - 2
+      runLength = 1
+    }
+
+    for (let i = 0; i + FINDER_LIKE.length <= size; i++) {
+      const matches = (pattern: boolean[]) => pattern.every((value, j) => line[i + j] === value)
+      if (matches(FINDER_LIKE) || matches([...FINDER_LIKE].reverse())) penalty += 40
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++
+      if (
+        x < size - 1 && y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += 3
+      }
+    }
+  }
+
+  const total = size * size
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+  return penalty
+}
+
+// Null if the text is too long for any QR version at this level
+export function generateQrCode(text: string, level: QrErrorCorrection = 'M'): QrModules | null {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  while (version <= MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > getNumDataCodewords(version, level) * 8) {
+    version++
+  }
+  if (version > MAX_VERSION) return null
+
+  const size = version * 4 + 17
+  const modules: QrModules = Array.from({ length: size }, () => new Array(size).fill(false))
+  const isFunction: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false))
+
+  const setFunction = (x: number, y: number, isDark: boolean) => {
+    modules[y][x] = isDark
+    isFunction[y][x] = true
+  }
+
+  const drawFormatBits = (mask: number) => {
+    const data = (formatBitsFor[level] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i))
+    setFunction(8, 7, getBit(bits, 6))
+    setFunction(8, 8, getBit(bits, 7))
+    setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i))
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i))
+    setFunction(8, size - 8, true)
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0)
+    setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns and their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        const x = cx + dx
+        const y = cy + dy
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  // Alignment patterns, except where they'd overlap the finders
+  const alignment = getAlignmentPositions(version)
+  alignment.forEach((cy, i) => {
+    alignment.forEach((cx, j) => {
+      const last = alignment.length - 1
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  // Reserve the format areas now; the real bits go in once the mask is chosen
+  drawFormatBits(0)
+
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(a, b, getBit(bits, i))
+      setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  // Codewords zigzag up and down two-column strips from the right, skipping the timing column
+  const codewords = addErrorCorrection(encodeData(bytes, version, level), version, level)
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? size - 1 - vertical : vertical
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7))
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && maskPatterns[mask](x, y)) modules[y][x] = !modules[y][x]
+      }
+    }
+  }
+
+  // Masks are their own inverse, so each can be tried and undone
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < maskPatterns.length; mask++) {
+    applyMask(mask)
+    drawFormatBits(mask)
+    const penalty = getPenaltyScore(modules)
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    applyMask(mask)
+  }
+
+  applyMask(bestMask)
+  drawFormatBits(bestMask)
+  return modules
+}
@@ -1,21 +1,35 @@
 import { useState } from 'react'
 import { motion } from 'motion/react'
 import { CheckCircle, Edit3 } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
 import { Button } from './ui/button'
 import { Textarea } from './ui/textarea'
 import { Card } from './ui/card'
 import { AoraLogo } from './AoraLogo'
+import { BreathPattern, PhaseType, phaseShortLabels } from './BreathPattern'
+import { SessionLog, appendSessionHistory } from './SessionLog'
+import { SessionTimelineChart } from './SessionTimelineChart'
+import { StageSummary } from './SessionProgram'
+import { AdherenceResult } from './Adherence'
+
+interface SessionPause {
+  at: number
+  duration: number
+}
 
 interface SessionData {
   duration: number
+  activeTime: number
+  pausedTime: number
+  pauses: SessionPause[]
   cycles: number
-  pattern: {
-    inhale: number
-    hold: number
-    exhale: number
-    pause: number
-  }
+  pattern: BreathPattern
   patternName?: string
+  completed: boolean
+  hiddenTime: number
+  log: SessionLog
+  stages?: StageSummary[]
+  adherence?: AdherenceResult
 }
 
 interface ReflectionScreenProps {
@@ -23,6 +37,15 @@ interface ReflectionScreenProps {
   onComplete: () => void
 }
 
+const phaseDotColors: Record<PhaseType, string> = {
+  'inhale': 'bg-blue-400',
+  'top-up': 'bg-blue-400/60',
+  'hold-full': 'bg-white/40',
+  'exhale': 'bg-amber-400',
+  'hold-empty': 'bg-violet-400',
+  'retention': 'bg-violet-400'
+}
+
 export function ReflectionScreen({ sessionData, onComplete }: ReflectionScreenProps) {
   const [reflection, setReflection] = useState('')
   const [showReflectionInput, setShowReflectionInput] = useState(false)
@@ -41,29 +64,25 @@ export function ReflectionScreen({ sessionData, onComplete }: ReflectionScreenPr
     const sessionRecord = {
       date: new Date().toISOString(),
       duration: sessionData.duration,
+      activeTime: sessionData.activeTime,
+      pausedTime: sessionData.pausedTime,
+      pauses: sessionData.pauses,
       exercise: sessionData.patternName || 'Custom Pattern',
       cycles: sessionData.cycles,
       pattern: sessionData.pattern,
+      completed: sessionData.completed,
+      hiddenTime: sessionData.hiddenTime,
+      log: sessionData.log,
+      stages: sessionData.stages,
+      adherence: sessionData.adherence,
       reflection: reflection
     }
 
-    // Get existing session history
-    const existingHistory = localStorage.getItem('aora-session-history')
-    let sessionHistory = []
-    
-    if (existingHistory) {
-      try {
-        sessionHistory = JSON.parse(existingHistory)
-      } catch (error) {
-        console.error('Error parsing session history:', error)
-      }
+    if (appendSessionHistory(sessionRecord)) {
+      console.log('Session saved to history:', sessionRecord)
+    } else {
+      toast.error("Couldn't save this session. Your device's storage is full.")
     }
-
-    // Add new session and save
-    sessionHistory.push(sessionRecord)
-    localStorage.setItem('aora-session-history', JSON.stringify(sessionHistory))
-    
-    console.log('Session saved to history:', sessionRecord)
     onComplete()
   }
 
@@ -103,8 +122,12 @@ export function ReflectionScreen({ sessionData, onComplete }: ReflectionScreenPr
             <CheckCircle className="w-16 h-16 mx-auto text-emerald-400 aora-glow" />
           </motion.div>
           
-          <h1 className="text-2xl tracking-wide mb-2">Session Complete</h1>
-          <p className="text-white/60">Well done on your practice</p>
+          <h1 className="text-2xl tracking-wide mb-2">
+            {sessionData.completed ? 'Session Complete' : 'Session Ended'}
+          </h1>
+          <p className="text-white/60">
+            {sessionData.completed ? 'Well done on your practice' : 'Every breath counts'}
+          </p>
         </motion.div>
 
         {/* Session stats */}
@@ -131,9 +154,9 @@ export function ReflectionScreen({ sessionData, onComplete }: ReflectionScreenPr
                   }}
                   transition={{ duration: 3, repeat: Infinity }}
                 >
-                  {formatDuration(sessionData.duration)}
+                  {formatDuration(sessionData.activeTime)}
                 </motion.div>
-                <div className="text-sm text-white/60 uppercase tracking-wide">Duration</div>
+                <div className="text-sm text-white/60 uppercase tracking-wide">Active Time</div>
               </motion.div>
               
               <motion.div 
@@ -153,6 +176,12 @@ export function ReflectionScreen({ sessionData, onComplete }: ReflectionScreenPr
                 <div className="text-sm text-white/60 uppercase tracking-wide">Cycles</div>
               </motion.div>
             </div>
+
+            <p className="mt-6 text-center text-sm text-white/50">
+              {sessionData.pauses.length > 0
+                ? `Paused ${formatDuration(sessionData.pausedTime)} across ${sessionData.pauses.length} ${sessionData.pauses.length === 1 ? 'pause' : 'pauses'}`
+                : 'No pauses'}
+            </p>
             
             <div className="mt-8 pt-6 border-t border-white/10">
               <div className="text-center">
@@ -160,32 +189,98 @@ export function ReflectionScreen({ sessionData, onComplete }: ReflectionScreenPr
                   {sessionData.patternName || 'Custom Pattern'}
                 </div>
                 <div className="text-sm text-white/60 leading-relaxed">
-                  <span className="inline-flex items-center space-x-1 mx-2">
-                    <div className="w-2 h-2 rounded-full bg-blue-400" />
-                    <span>{sessionData.pattern.inhale}s in</span>
-                  </span>
-                  {sessionData.pattern.hold > 0 && (
-                    <span className="inline-flex items-center space-x-1 mx-2">
-                      <div className="w-2 h-2 rounded-full bg-white/40" />
-                      <span>{sessionData.pattern.hold}s hold</span>
-                    </span>
-                  )}
-                  <span className="inline-flex items-center space-x-1 mx-2">
-                    <div className="w-2 h-2 rounded-full bg-amber-400" />
-                    <span>{sessionData.pattern.exhale}s out</span>
-                  </span>
-                  {sessionData.pattern.pause > 0 && (
-                    <span className="inline-flex items-center space-x-1 mx-2">
-                      <div className="w-2 h-2 rounded-full bg-violet-400" />
-                      <span>{sessionData.pattern.pause}s pause</span>
+                  {sessionData.pattern.phases.map((phase, index) => (
+                    <span key={index} className="inline-flex items-center space-x-1 mx-2">
+                      <div className={`w-2 h-2 rounded-full ${phaseDotColors[phase.type]}`} />
+                      <span>{phase.duration}s {phase.label?.trim() || phaseShortLabels[phase.type].toLowerCase()}</span>
                     </span>
-                  )}
+                  ))}
                 </div>
               </div>
             </div>
           </Card>
         </motion.div>
 
+        {/* Program stages */}
+        {sessionData.stages && sessionData.stages.length > 0 && (
+          <motion.div
+            className="px-6 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.45, duration: 0.6 }}
+          >
+            <Card className="p-6 bg-white/[0.02] border-white/10">
+              <h3 className="text-lg mb-4">Stages</h3>
+              <div className="space-y-3">
+                {sessionData.stages.map((stage, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      <div className="text-white/90">{stage.name}</div>
+                      {stage.exerciseName && (
+                        <div className="text-xs text-white/50">{stage.exerciseName}</div>
+                      )}
+                    </div>
+                    <div className="text-right text-white/60">
+                      <div>{formatDuration(stage.activeTime)}</div>
+                      <div className="text-xs text-white/40">
+                        {stage.cycles} {stage.cycles === 1 ? 'cycle' : 'cycles'}{stage.completed ? '' : ' · ended early'}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Follow-along score */}
+        {sessionData.adherence && (
+          <motion.div
+            className="px-6 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.45, duration: 0.6 }}
+          >
+            <Card className="p-6 bg-white/[0.02] border-white/10">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg">Follow-Along</h3>
+                <div className="text-right">
+                  <span className="text-2xl font-light tabular-nums">{sessionData.adherence.score}</span>
+                  <span className="text-sm text-white/50"> / 100</span>
+                </div>
+              </div>
+              <div className="flex items-end gap-1" style={{ height: 48 }}>
+                {sessionData.adherence.cycles.map((score, index) => (
+                  <div
+                    key={index}
+                    className="flex-1 rounded-sm bg-blue-400/60"
+                    style={{ height: `${Math.max(4, score)}%` }}
+                    title={`Cycle ${index + 1}: ${score}`}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-white/50 mt-4">
+                {Math.abs(sessionData.adherence.offset) < 0.1
+                  ? 'Right on the beat, on average'
+                  : `On average ${Math.abs(sessionData.adherence.offset).toFixed(1)}s ${sessionData.adherence.offset > 0 ? 'behind' : 'ahead of'} the pace`}
+              </p>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Phase timeline */}
+        <motion.div
+          className="px-6 mb-8"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5, duration: 0.6 }}
+        >
+          <Card className="p-6 bg-white/[0.02] border-white/10">
+            <h3 className="text-lg mb-4">Timeline</h3>
+            <SessionTimelineChart log={sessionData.log} />
+          </Card>
+        </motion.div>
+
         {/* Reflection section */}
         <motion.div
           className="px-6 flex-1"
@@ -0,0 +1,91 @@
+// Resonance frequency assessment for AORA
+//
+// Resonant breathing is usually taught at 5-6 breaths per minute, but the
+// rate that feels calmest differs from person to person. The assessment
+// paces a few candidate rates, collects a calm rating after each and picks
+// a personal rate from them.
+
+import { BreathPattern } from './BreathPattern'
+
+export interface RateRating {
+  rate: number
+  rating: number
+}
+
+export interface ResonanceResult {
+  date: string
+  rate: number
+  ratings: RateRating[]
+}
+
+export const ASSESSMENT_RATES = [6.5, 6, 5.5, 5, 4.5]
+
+export const BLOCK_MINUTES = 2
+
+export const calmRatings = [
+  { value: 1, label: 'Strained' },
+  { value: 2, label: 'Effortful' },
+  { value: 3, label: 'Okay' },
+  { value: 4, label: 'Calm' },
+  { value: 5, label: 'Effortless' }
+]
+
+export const RESONANT_EXERCISE_ID = 'resonance-personal'
+
+// Equal inhale and exhale at `rate` breaths per minute
+export function getResonantPattern(rate: number): BreathPattern {
+  const half = Math.round((60 / rate / 2) * 10) / 10
+  return { phases: [{ type: 'inhale', duration: half }, { type: 'exhale', duration: half }] }
+}
+
+// Highest rating wins; ties go to the rate whose neighbours were rated higher,
+// then to the one nearest the textbook 5.5 breaths per minute
+export function recommendRate(ratings: RateRating[]): number {
+  if (ratings.length === 0) return 5.5
+
+  const neighbourScore = (index: number) =>
+    (ratings[index - 1]?.rating ?? 0) + (ratings[index + 1]?.rating ?? 0)
+
+  const best = ratings
+    .map((entry, index) => ({ ...entry, neighbours: neighbourScore(index) }))
+    .sort((a, b) =>
+      b.rating - a.rating ||
+      b.neighbours - a.neighbours ||
+      Math.abs(a.rate - 5.5) - Math.abs(b.rate - 5.5)
+    )[0]
+
+  return best.rate
+}
+
+export function loadResonanceResults(): ResonanceResult[] {
+  try {
+    const stored = localStorage.getItem('aora-resonance')
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error('Error parsing resonance results:', error)
+  }
+  return []
+}
+
+// Keep the result and (re)write the personal exercise that uses it
+export function saveResonanceResult(result: ResonanceResult): void {
+  localStorage.setItem('aora-resonance', JSON.stringify([...loadResonanceResults(), result]))
+
+  const exercise = {
+    id: RESONANT_EXERCISE_ID,
+    name: 'My Resonant Breathing',
+    tag: 'Calm',
+    description: `Your resonant rate: ${result.rate} breaths/min`,
+    pattern: getResonantPattern(result.rate),
+    color: 'from-cyan-500 to-blue-600',
+    isDefault: false
+  }
+
+  const existingCustomExercises = JSON.parse(localStorage.getItem('aora-custom-exercises') || '[]')
+  const updatedCustomExercises = [
+    ...existingCustomExercises.filter((existing: { id: string }) => existing.id !== RESONANT_EXERCISE_ID),
+    exercise
+  ]
+  localStorage.setItem('aora-custom-exercises', JSON.stringify(updatedCustomExercises))
+  window.dispatchEvent(new CustomEvent('aora-refresh-exercises'))
+}
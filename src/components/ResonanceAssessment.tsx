@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { motion } from 'motion/react'
+import { ArrowLeft, Activity, CheckCircle, X } from 'lucide-react'
+import { Bar, BarChart, Cell, XAxis, YAxis } from 'recharts@2.15.2'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { ChartConfig, ChartContainer } from './ui/chart'
+import { toast } from 'sonner@2.0.3'
+import { BreathingOrb } from './BreathingOrb'
+import { getCyclesForDuration, getSessionDuration } from './BreathPattern'
+import { useBreathScheduler } from './useBreathScheduler'
+import { audioCueEngine, getSoundSettings } from './AudioCueEngine'
+import { hapticsEngine, getHapticSettings } from './HapticsEngine'
+import { voiceGuide, getVoiceSettings } from './VoiceGuide'
+import { useWakeLock } from './useWakeLock'
+import { appendSessionHistory } from './SessionLog'
+import {
+  ASSESSMENT_RATES,
+  BLOCK_MINUTES,
+  RateRating,
+  calmRatings,
+  getResonantPattern,
+  recommendRate,
+  saveResonanceResult
+} from './Resonance'
+
+type AssessmentStep = 'intro' | 'block' | 'rating' | 'result'
+
+interface ResonanceAssessmentProps {
+  onBack: () => void
+}
+
+interface AssessmentBlockProps {
+  rate: number
+  onComplete: (seconds: number) => void
+}
+
+const chartConfig = {
+  rating: { label: 'Calm', color: '#60a5fa' }
+} satisfies ChartConfig
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// One paced block; remounted per rate so each gets a fresh scheduler
+function AssessmentBlock({ rate, onComplete }: AssessmentBlockProps) {
+  const pattern = useMemo(() => getResonantPattern(rate), [rate])
+  const blockSeconds = useMemo(
+    () => getSessionDuration(pattern, getCyclesForDuration(pattern, BLOCK_MINUTES * 60)),
+    [pattern]
+  )
+  const { state: breath, scheduler } = useBreathScheduler(pattern, true)
+  const completedRef = useRef(false)
+
+  useEffect(() => {
+    if (getSoundSettings().enabled) audioCueEngine.startCues(scheduler)
+    if (getHapticSettings().enabled) hapticsEngine.follow(scheduler)
+    const voiceSettings = getVoiceSettings()
+    if (voiceSettings.enabled) voiceGuide.follow(scheduler, voiceSettings)
+
+    return () => {
+      audioCueEngine.stopCues()
+      hapticsEngine.stop()
+      voiceGuide.stopFollowing()
+    }
+  }, [scheduler])
+
+  useEffect(() => {
+    if (completedRef.current || breath.elapsed < blockSeconds) return
+    completedRef.current = true
+    audioCueEngine.playChime()
+    onComplete(Math.round(blockSeconds))
+  }, [breath.elapsed, blockSeconds])
+
+  return (
+    <div className="flex flex-col items-center space-y-8 pt-8">
+      <div className="text-center">
+        <p className="text-4xl font-light tabular-nums">{rate}</p>
+        <p className="text-sm text-white/60">breaths per minute</p>
+      </div>
+
+      <BreathingOrb size="xl" isActive phase={breath.phase} />
+
+      <div className="text-center">
+        <h2 className="text-2xl tracking-wide mb-2">{breath.label}</h2>
+        <p className="text-white/60 tabular-nums">{formatTime(Math.max(0, Math.ceil(blockSeconds - breath.elapsed)))} left</p>
+      </div>
+    </div>
+  )
+}
+
+export function ResonanceAssessment({ onBack }: ResonanceAssessmentProps) {
+  const [step, setStep] = useState<AssessmentStep>('intro')
+  const [blockIndex, setBlockIndex] = useState(0)
+  const [ratings, setRatings] = useState<RateRating[]>([])
+  const [recommended, setRecommended] = useState<number | null>(null)
+  const practicedRef = useRef(0)
+
+  const rate = ASSESSMENT_RATES[blockIndex]
+
+  useWakeLock(step === 'block')
+
+  const handleBlockComplete = (seconds: number) => {
+    practicedRef.current += seconds
+    setStep('rating')
+  }
+
+  const saveToHistory = (results: RateRating[]) => {
+    const sessionRecord = {
+      date: new Date().toISOString(),
+      duration: practicedRef.current,
+      activeTime: practicedRef.current,
+      pausedTime: 0,
+      exercise: 'Resonance Assessment',
+      cycles: results.reduce(
+        (total, entry) => total + getCyclesForDuration(getResonantPattern(entry.rate), BLOCK_MINUTES * 60),
+        0
+      ),
+      completed: true
+    }
+
+    if (!appendSessionHistory(sessionRecord)) {
+      toast.error("Couldn't save this session. Your device's storage is full.")
+    }
+  }
+
+  const handleRate = (rating: number) => {
+    const updated = [...ratings, { rate, rating }]
+    setRatings(updated)
+
+    if (blockIndex < ASSESSMENT_RATES.length - 1) {
+      setBlockIndex(blockIndex + 1)
+      setStep('block')
+      return
+    }
+
+    const personalRate = recommendRate(updated)
+    setRecommended(personalRate)
+    saveResonanceResult({ date: new Date().toISOString(), rate: personalRate, ratings: updated })
+    saveToHistory(updated)
+    setStep('result')
+  }
+
+  const startAssessment = () => {
+    practicedRef.current = 0
+    setRatings([])
+    setBlockIndex(0)
+    setStep('block')
+  }
+
+  return (
+    <div className="min-h-screen bg-background overflow-y-auto">
+      {/* Header */}
+      <motion.div
+        className="flex items-center justify-between pt-16 pb-6 px-6"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <Button variant="ghost" size="sm" onClick={onBack} className="p-2">
+          {step === 'block' || step === 'rating' ? <X className="w-5 h-5" /> : <ArrowLeft className="w-5 h-5" />}
+        </Button>
+
+        <div className="text-center">
+          <h1 className="text-xl">Resonant Rate</h1>
+          <p className="text-sm text-white/60">
+            {step === 'block' || step === 'rating'
+              ? `Block ${blockIndex + 1} of ${ASSESSMENT_RATES.length}`
+              : 'Find the pace that calms you most'}
+          </p>
+        </div>
+
+        <div className="w-9" /> {/* Spacer */}
+      </motion.div>
+
+      <div className="px-6 space-y-6 pb-32">
+        {step === 'intro' && (
+          <>
+            <Card className="p-6 glass-card border-white/20 space-y-4">
+              <div className="flex items-center space-x-2">
+                <Activity className="w-5 h-5 text-blue-400" />
+                <h3 className="font-medium text-lg">How it works</h3>
+              </div>
+              <p className="text-sm text-white/70 leading-relaxed">
+                You'll breathe at {ASSESSMENT_RATES.length} slightly different paces for about {BLOCK_MINUTES} minutes
+                each, from {ASSESSMENT_RATES[0]} down to {ASSESSMENT_RATES[ASSESSMENT_RATES.length - 1]} breaths per
+                minute. After each one, rate how calm and easy it felt.
+              </p>
+              <p className="text-sm text-white/70 leading-relaxed">
+                Sit comfortably and breathe through your nose, gently and without forcing.
+              </p>
+              <p className="text-xs text-white/50">
+                About {ASSESSMENT_RATES.length * BLOCK_MINUTES} minutes in total
+              </p>
+            </Card>
+
+            <Button
+              onClick={startAssessment}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700 aora-glow"
+            >
+              Begin Assessment
+            </Button>
+          </>
+        )}
+
+        {step === 'block' && (
+          <AssessmentBlock key={blockIndex} rate={rate} onComplete={handleBlockComplete} />
+        )}
+
+        {step === 'rating' && (
+          <Card className="p-6 glass-card border-white/20 space-y-6">
+            <div className="text-center">
+              <h3 className="text-lg mb-1">How did {rate} breaths per minute feel?</h3>
+              <p className="text-sm text-white/60">Go with your first impression</p>
+            </div>
+            <div className="space-y-3">
+              {calmRatings.map((option) => (
+                <Button
+                  key={option.value}
+                  variant="outline"
+                  onClick={() => handleRate(option.value)}
+                  className="w-full h-12 rounded-xl border-white/20 hover:bg-white/5 justify-between"
+                >
+                  <span>{option.label}</span>
+                  <span className="text-white/40">{option.value}</span>
+                </Button>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {step === 'result' && recommended !== null && (
+          <>
+            <Card className="p-8 glass-card border-white/20 text-center">
+              <CheckCircle className="w-10 h-10 mx-auto text-emerald-400 mb-4" />
+              <p className="text-sm text-white/60 uppercase tracking-wide">Your Resonant Rate</p>
+              <p className="text-4xl font-light tabular-nums mt-2 mb-2">{recommended}</p>
+              <p className="text-sm text-white/60">breaths per minute</p>
+              <p className="text-xs text-white/50 mt-6">
+                Saved to your library as “My Resonant Breathing”
+              </p>
+            </Card>
+
+            <Card className="p-6 bg-white/[0.02] border-white/10">
+              <h3 className="text-lg mb-4">Your Ratings</h3>
+              <ChartContainer config={chartConfig} style={{ aspectRatio: 'auto', height: 160 }}>
+                <BarChart data={ratings} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+                  <XAxis dataKey="rate" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 5]} ticks={[1, 3, 5]} tickLine={false} axisLine={false} width={24} />
+                  <Bar dataKey="rating" radius={4}>
+                    {ratings.map((entry) => (
+                      <Cell
+                        key={entry.rate}
+                        fill={entry.rate === recommended ? '#34d399' : 'var(--color-rating)'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </Card>
+
+            <Button
+              onClick={onBack}
+              className="w-full h-14 rounded-2xl bg-gradient-to-r from-blue-500 to-violet-600 hover:from-blue-600 hover:to-violet-700"
+            >
+              Done
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
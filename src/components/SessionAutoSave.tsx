@@ -3,27 +3,30 @@ import { motion } from 'motion/react'
 import { Button } from './ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Play, RotateCcw, X, Clock, Target } from 'lucide-react'
+import { BreathPattern, LegacyPhase, PhaseType, formatPattern, normalizePattern } from './BreathPattern'
 
 interface SavedSession {
   id: string
   timestamp: number
-  pattern: {
-    inhale: number
-    hold: number
-    exhale: number
-    pause: number
-  }
+  pattern: BreathPattern
   patternName?: string
   progress: {
     cyclesCompleted: number
     totalCycles: number
     timeElapsed: number
-    currentPhase: 'inhale' | 'hold' | 'exhale' | 'pause'
+    currentPhase: PhaseType | LegacyPhase
+    phaseIndex?: number
     phaseTimeRemaining: number
   }
   duration: number
 }
 
+// Older saves stored the four-field pattern; convert on read
+const parseSavedSession = (saved: string): SavedSession => {
+  const session = JSON.parse(saved) as SavedSession
+  return { ...session, pattern: normalizePattern(session.pattern) }
+}
+
 interface SessionAutoSaveProps {
   onResumeSession?: (savedSession: SavedSession) => void
   onDismiss?: () => void
@@ -41,7 +44,7 @@ export function SessionAutoSave({ onResumeSession, onDismiss }: SessionAutoSaveP
     const saved = localStorage.getItem('aora-saved-session')
     if (saved) {
       try {
-        const session = JSON.parse(saved) as SavedSession
+        const session = parseSavedSession(saved)
         // Only show if session was saved less than 24 hours ago
         const hoursSinceLastSession = (Date.now() - session.timestamp) / (1000 * 60 * 60)
         if (hoursSinceLastSession < 24) {
@@ -191,15 +194,7 @@ export function SessionAutoSave({ onResumeSession, onDismiss }: SessionAutoSaveP
                 <Clock className="w-3 h-3 text-primary" />
                 <span className="text-muted-foreground">Pattern:</span>
               </div>
-              <div className="flex gap-2">
-                <span>{savedSession.pattern.inhale}s</span>
-                <span className="text-muted-foreground">•</span>
-                <span>{savedSession.pattern.hold}s</span>
-                <span className="text-muted-foreground">•</span>
-                <span>{savedSession.pattern.exhale}s</span>
-                <span className="text-muted-foreground">•</span>
-                <span>{savedSession.pattern.pause}s</span>
-              </div>
+              <span>{formatPattern(savedSession.pattern)}</span>
             </div>
           </div>
 
@@ -254,7 +249,7 @@ export function useSessionAutoSave() {
     const saved = localStorage.getItem('aora-saved-session')
     if (saved) {
       try {
-        return JSON.parse(saved) as SavedSession
+        return parseSavedSession(saved)
       } catch (error) {
         console.error('Error parsing saved session:', error)
         clearSavedSession()
@@ -0,0 +1,242 @@
+// Per-phase event log recorded with every AORA session
+//
+// Events are packed into one string to keep long sessions small in localStorage:
+// an uppercase code, the time since the previous event in base-36 deciseconds of
+// active breathing time, then dot-separated base-36 arguments.
+// e.g. "S0.0.0E28S0.1.0E46S0.2.0" is in 4s, hold 7s, then the exhale begins.
+
+import { BreathPattern } from './BreathPattern'
+import { BreathState } from './BreathScheduler'
+
+export type ExitReason = 'completed' | 'user'
+
+// `time` is active (unpaused) seconds into the session; `paused` and `hidden` are wall-clock seconds
+export type SessionEvent =
+  | { type: 'phase-start', time: number, phaseIndex: number, cycle: number }
+  | { type: 'phase-end', time: number, phaseIndex: number, cycle: number }
+  | { type: 'pause', time: number }
+  | { type: 'resume', time: number, paused: number }
+  | { type: 'hidden', time: number }
+  | { type: 'visible', time: number, hidden: number }
+  | { type: 'pattern', time: number, patternIndex: number }
+  | { type: 'exit', time: number, reason: ExitReason }
+
+export interface SessionLog {
+  version: 1
+  // Every pattern used during the session; 'pattern' events point into this list
+  patterns: BreathPattern[]
+  events: string
+}
+
+const codes: Record<SessionEvent['type'], string> = {
+  'phase-start': 'S',
+  'phase-end': 'E',
+  'pause': 'P',
+  'resume': 'R',
+  'hidden': 'H',
+  'visible': 'V',
+  'pattern': 'C',
+  'exit': 'X'
+}
+
+const exitCodes: Record<ExitReason, string> = { completed: 'c', user: 'u' }
+
+const toTenths = (seconds: number) => Math.max(0, Math.round(seconds * 10))
+const encodeNumber = (value: number) => value.toString(36)
+const decodeNumber = (value: string | undefined) => parseInt(value ?? '0', 36) || 0
+
+export function encodeSessionEvents(events: SessionEvent[]): string {
+  let previous = 0
+
+  return events.map(event => {
+    const time = toTenths(event.time)
+    const args = [encodeNumber(Math.max(0, time - previous))]
+    previous = Math.max(previous, time)
+
+    switch (event.type) {
+      case 'phase-start':
+        args.push(encodeNumber(event.phaseIndex), encodeNumber(event.cycle))
+        break
+      case 'resume':
+        args.push(encodeNumber(toTenths(event.paused)))
+        break
+      case 'visible':
+        args.push(encodeNumber(toTenths(event.hidden)))
+        break
+      case 'pattern':
+        args.push(encodeNumber(event.patternIndex))
+        break
+      case 'exit':
+        args.push(exitCodes[event.reason])
+        break
+    }
+
+    return codes[event.type] + args.join('.')
+  }).join('')
+}
+
+export function decodeSessionEvents(encoded: string): SessionEvent[] {
+  const events: SessionEvent[] = []
+  let time = 0
+  let openPhase = { phaseIndex: 0, cycle: 0 }
+
+  for (const [, code, body] of encoded.matchAll(/([A-Z])([^A-Z]*)/g)) {
+    const args = body.split('.')
+    time += decodeNumber(args[0])
+    const at = time / 10
+
+    switch (code) {
+      case 'S':
+        openPhase = { phaseIndex: decodeNumber(args[1]), cycle: decodeNumber(args[2]) }
+        events.push({ type: 'phase-start', time: at, ...openPhase })
+        break
+      case 'E':
+        // Ends whichever phase started last
+        events.push({ type: 'phase-end', time: at, ...openPhase })
+        break
+      case 'P':
+        events.push({ type: 'pause', time: at })
+        break
+      case 'R':
+        events.push({ type: 'resume', time: at, paused: decodeNumber(args[1]) / 10 })
+        break
+      case 'H':
+        events.push({ type: 'hidden', time: at })
+        break
+      case 'V':
+        events.push({ type: 'visible', time: at, hidden: decodeNumber(args[1]) / 10 })
+        break
+      case 'C':
+        events.push({ type: 'pattern', time: at, patternIndex: decodeNumber(args[1]) })
+        break
+      case 'X':
+        events.push({ type: 'exit', time: at, reason: args[1] === exitCodes.completed ? 'completed' : 'user' })
+        break
+    }
+  }
+
+  return events
+}
+
+// Collects events while a session runs; phase boundaries are derived from scheduler state
+export class SessionRecorder {
+  private events: SessionEvent[] = []
+  private patterns: BreathPattern[]
+  private openPhase: { phaseIndex: number, cycle: number } | null = null
+
+  constructor(pattern: BreathPattern) {
+    this.patterns = [pattern]
+  }
+
+  // Call with fresh state as often as convenient; phases skipped between calls
+  // (e.g. while timers were throttled in a hidden tab) are filled in exactly
+  trackPhase(state: BreathState): void {
+    const open = this.openPhase
+    if (open && open.phaseIndex === state.phaseIndex && open.cycle === state.cycle) return
+
+    const pattern = this.patterns[this.patterns.length - 1]
+    const boundaries: { phaseIndex: number, cycle: number, time: number }[] = []
+    let phaseIndex = state.phaseIndex
+    let cycle = state.cycle
+    let time = state.elapsed - state.phaseElapsed
+
+    // Walk back from the current phase to the one last seen
+    for (let guard = 0; guard < 10000; guard++) {
+      if (pattern.phases[phaseIndex]?.duration > 0) {
+        boundaries.unshift({ phaseIndex, cycle, time })
+      }
+      if (!open || cycle < open.cycle) break
+
+      phaseIndex -= 1
+      if (phaseIndex < 0) {
+        phaseIndex = pattern.phases.length - 1
+        cycle -= 1
+      }
+      if (phaseIndex === open.phaseIndex && cycle === open.cycle) break
+      time -= Math.max(0, pattern.phases[phaseIndex]?.duration ?? 0)
+    }
+
+    boundaries.forEach(boundary => {
+      if (this.openPhase) {
+        this.events.push({ type: 'phase-end', time: boundary.time, ...this.openPhase })
+      }
+      this.events.push({ type: 'phase-start', ...boundary })
+      this.openPhase = { phaseIndex: boundary.phaseIndex, cycle: boundary.cycle }
+    })
+  }
+
+  pause(time: number): void {
+    this.events.push({ type: 'pause', time })
+  }
+
+  resume(time: number, paused: number): void {
+    this.events.push({ type: 'resume', time, paused })
+  }
+
+  hidden(time: number): void {
+    this.events.push({ type: 'hidden', time })
+  }
+
+  visible(time: number, hidden: number): void {
+    this.events.push({ type: 'visible', time, hidden })
+  }
+
+  // A new pattern starts a fresh cycle, so the open phase ends here
+  setPattern(time: number, pattern: BreathPattern): void {
+    this.endOpenPhase(time)
+    this.patterns.push(pattern)
+    this.events.push({ type: 'pattern', time, patternIndex: this.patterns.length - 1 })
+  }
+
+  exit(time: number, reason: ExitReason): void {
+    // A phase that began at the very moment of exit never really happened
+    const last = this.events[this.events.length - 1]
+    if (last?.type === 'phase-start' && toTenths(last.time) >= toTenths(time)) {
+      this.events.pop()
+      this.openPhase = null
+    } else {
+      this.endOpenPhase(time)
+    }
+    this.events.push({ type: 'exit', time, reason })
+  }
+
+  toLog(): SessionLog {
+    // Back-filled phases can be recorded after later pause or visibility events
+    const events = [...this.events].sort((a, b) => a.time - b.time)
+    return { version: 1, patterns: this.patterns, events: encodeSessionEvents(events) }
+  }
+
+  private endOpenPhase(time: number): void {
+    if (!this.openPhase) return
+    this.events.push({ type: 'phase-end', time, ...this.openPhase })
+    this.openPhase = null
+  }
+}
+
+// Recent sessions keep their full event log; older ones keep just their summary
+const MAX_LOGGED_SESSIONS = 50
+
+const withoutLog = <T extends { log?: SessionLog }>(session: T): T => ({ ...session, log: undefined })
+
+// Add a session to the history. If storage is full, every log but the new one's is
+// dropped to make room; false if the session still couldn't be saved.
+export function appendSessionHistory(record: object): boolean {
+  let history: { log?: SessionLog }[] = []
+  try {
+    history = JSON.parse(localStorage.getItem('aora-session-history') || '[]')
+  } catch (error) {
+    console.error('Error parsing session history:', error)
+  }
+  history.push(record)
+
+  for (const keep of [MAX_LOGGED_SESSIONS, 1]) {
+    const pruned = history.map((session, index) => index < history.length - keep ? withoutLog(session) : session)
+    try {
+      localStorage.setItem('aora-session-history', JSON.stringify(pruned))
+      return true
+    } catch (error) {
+      console.error('Error saving session history:', error)
+    }
+  }
+  return false
+}
@@ -0,0 +1,89 @@
+// Multi-stage session programs for AORA
+//
+// A program runs several patterns back to back in one session, e.g. a
+// coherent warm-up, a box-breathing main set and a natural cool-down.
+
+import { BreathPattern, getCyclesForDuration } from './BreathPattern'
+
+export interface SessionTarget {
+  type: 'cycles' | 'minutes'
+  value: number
+}
+
+export interface ProgramStage {
+  name: string
+  exerciseName?: string
+  pattern: BreathPattern
+  target: SessionTarget
+}
+
+export interface SessionProgram {
+  id: string
+  name: string
+  stages: ProgramStage[]
+  isDefault?: boolean
+}
+
+// How one stage of a finished program went
+export interface StageSummary {
+  name: string
+  exerciseName?: string
+  cycles: number
+  activeTime: number
+  completed: boolean
+}
+
+export const MAX_STAGES = 6
+
+export const defaultPrograms: SessionProgram[] = [
+  {
+    id: 'calm-reset',
+    name: 'Calm Reset',
+    isDefault: true,
+    stages: [
+      {
+        name: 'Warm-up',
+        exerciseName: 'Coherent Breathing',
+        pattern: { phases: [{ type: 'inhale', duration: 5 }, { type: 'exhale', duration: 5 }] },
+        target: { type: 'minutes', value: 2 }
+      },
+      {
+        name: 'Main Set',
+        exerciseName: 'Box Breathing',
+        pattern: { phases: [
+          { type: 'inhale', duration: 4 },
+          { type: 'hold-full', duration: 4 },
+          { type: 'exhale', duration: 4 },
+          { type: 'hold-empty', duration: 4 }
+        ] },
+        target: { type: 'minutes', value: 5 }
+      },
+      {
+        name: 'Cool-down',
+        exerciseName: 'Natural Breathing',
+        pattern: { phases: [{ type: 'inhale', duration: 3 }, { type: 'exhale', duration: 4 }] },
+        target: { type: 'minutes', value: 2 }
+      }
+    ]
+  }
+]
+
+// A time target finishes at the end of the cycle in progress when time runs out
+export function getStageCycles(stage: ProgramStage): number {
+  if (stage.target.type === 'cycles') return Math.max(1, Math.round(stage.target.value))
+  return getCyclesForDuration(stage.pattern, stage.target.value * 60)
+}
+
+export function loadPrograms(): SessionProgram[] {
+  try {
+    const stored = localStorage.getItem('aora-programs')
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error('Error parsing programs:', error)
+  }
+  return []
+}
+
+export function savePrograms(programs: SessionProgram[]): void {
+  localStorage.setItem('aora-programs', JSON.stringify(programs))
+}
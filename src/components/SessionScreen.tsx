@@ -1,54 +1,259 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { motion, AnimatePresence } from 'motion/react'
 import { Pause, Play, X } from 'lucide-react'
 import { Button } from './ui/button'
 import { BreathingOrb } from './BreathingOrb'
 import { useSessionAutoSave } from './SessionAutoSave'
+import {
+  BreathPattern,
+  LegacyPhase,
+  PhaseType,
+  formatPattern,
+  getCycleDuration,
+  getEffectivePattern,
+  getSessionDuration,
+  isInhalePhase,
+  toPhaseType
+} from './BreathPattern'
+import { getCycleTime } from './BreathScheduler'
+import { useBreathScheduler } from './useBreathScheduler'
+import { audioCueEngine, getSoundSettings } from './AudioCueEngine'
+import { hapticsEngine, getHapticSettings } from './HapticsEngine'
+import { voiceGuide, getVoiceSettings } from './VoiceGuide'
+import { useWakeLock } from './useWakeLock'
+import { getBackgroundPolicy } from './BackgroundPolicy'
+import { SessionLog, SessionRecorder } from './SessionLog'
+import { SessionProgram, SessionTarget, StageSummary, getStageCycles } from './SessionProgram'
+import { AdherenceResult, AdherenceTracker, getFollowAlong } from './Adherence'
 
-interface BreathPattern {
-  inhale: number
-  hold: number
-  exhale: number
-  pause: number
+interface SessionResumeState {
+  cyclesCompleted: number
+  timeElapsed: number
+  currentPhase: PhaseType | LegacyPhase
+  phaseIndex?: number
+  phaseTimeRemaining: number
 }
 
 interface SessionScreenProps {
   pattern: BreathPattern
   patternName?: string
+  target?: SessionTarget
+  program?: SessionProgram
+  resumeState?: SessionResumeState
   onExit: (sessionData: SessionData) => void
 }
 
+interface SessionPause {
+  at: number
+  duration: number
+}
+
 interface SessionData {
   duration: number
+  activeTime: number
+  pausedTime: number
+  pauses: SessionPause[]
   cycles: number
   pattern: BreathPattern
   patternName?: string
+  completed: boolean
+  hiddenTime: number
+  log: SessionLog
+  stages?: StageSummary[]
+  adherence?: AdherenceResult
 }
 
-export function SessionScreen({ pattern, patternName, onExit }: SessionScreenProps) {
-  const [currentPhase, setCurrentPhase] = useState<'inhale' | 'hold' | 'exhale' | 'pause'>('inhale')
+export function SessionScreen({
+  pattern,
+  patternName,
+  target = { type: 'cycles', value: 10 },
+  program,
+  resumeState,
+  onExit
+}: SessionScreenProps) {
   const [isActive, setIsActive] = useState(true)
-  const [cycles, setCycles] = useState(0)
-  const [timeRemaining, setTimeRemaining] = useState(0)
-  const [sessionDuration, setSessionDuration] = useState(0)
   const [showInstructions, setShowInstructions] = useState(true)
-  const [totalCycles] = useState(10) // Default target cycles
+  const [isAwake, setIsAwake] = useState(false)
+  const [isEnding, setIsEnding] = useState(false)
+  const [stageIndex, setStageIndex] = useState(0)
+  const [showStageBanner, setShowStageBanner] = useState(false)
+  const [eyesClosed] = useState<boolean>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('aora-eyes-closed') ?? 'false')
+    } catch (error) {
+      return false
+    }
+  })
+  const [followAlong] = useState(getFollowAlong)
+  const [isPressed, setIsPressed] = useState(false)
   
-  const startTimeRef = useRef<number>(Date.now())
-  const phaseTimeoutRef = useRef<NodeJS.Timeout>()
-  const durationIntervalRef = useRef<NodeJS.Interval>()
+  const hasEndedRef = useRef(false)
   const autoSaveIntervalRef = useRef<NodeJS.Interval>()
+  // Pauses as epoch-ms start and length in seconds; an open pause has no length yet
+  const pausesRef = useRef<SessionPause[]>([])
+  const pauseStartedRef = useRef<number | null>(null)
+  const wakeTimeoutRef = useRef<number>()
+  const hiddenAtRef = useRef<number | null>(null)
+  const hiddenTotalRef = useRef(0)
+  const recorderRef = useRef<SessionRecorder>()
+  // Where the current program stage began, and how the earlier ones went
+  const stageStartRef = useRef({ cycle: 0, elapsed: 0 })
+  const stageSummariesRef = useRef<StageSummary[]>([])
+  const stageBannerTimeoutRef = useRef<number>()
+  const adherenceRef = useRef<AdherenceTracker>()
+
+  // Programs swap in each stage's pattern and target as they go
+  const stage = program?.stages[stageIndex]
+  const activePattern = stage?.pattern ?? pattern
+  const activeTarget = stage?.target ?? target
   
   const { saveSession, clearSavedSession } = useSessionAutoSave()
+  const { state: breath, scheduler } = useBreathScheduler(
+    activePattern,
+    isActive,
+    resumeState && {
+      elapsed: resumeState.timeElapsed,
+      cycle: resumeState.cyclesCompleted,
+      cycleTime: getCycleTime(
+        getEffectivePattern(pattern, resumeState.cyclesCompleted),
+        // Sessions saved before multi-phase patterns only know the phase name
+        resumeState.phaseIndex ?? pattern.phases.findIndex(phase => phase.type === toPhaseType(resumeState.currentPhase)),
+        resumeState.phaseTimeRemaining
+      )
+    }
+  )
+  const currentPhase = breath.phase
+  const cycles = breath.cycle
+  const timeRemaining = breath.phaseRemaining
+  const phaseInstruction = breath.label
+  // Differs from `pattern` as progression rules stretch it over the session
+  const effectivePattern = scheduler.getPattern()
+
+  if (!recorderRef.current) {
+    recorderRef.current = new SessionRecorder(effectivePattern)
+  }
+  const recorder = recorderRef.current
 
-  const phaseInstructions = {
-    inhale: 'Breathe In',
-    hold: 'Hold',
-    exhale: 'Breathe Out',
-    pause: 'Pause'
+  if (!adherenceRef.current) {
+    adherenceRef.current = new AdherenceTracker()
   }
+  const adherence = adherenceRef.current
+
+  // For programs these count within the current stage
+  const totalCycles = useMemo(
+    () => getStageCycles({ name: '', pattern: activePattern, target: activeTarget }),
+    [activeTarget.type, activeTarget.value, activePattern]
+  )
+  const totalSeconds = useMemo(() => getSessionDuration(activePattern, totalCycles), [activePattern, totalCycles])
+  const stageCycles = cycles - stageStartRef.current.cycle
+  const remainingCycles = Math.max(0, totalCycles - stageCycles)
+  const remainingSeconds = Math.max(0, Math.ceil(totalSeconds - (breath.elapsed - stageStartRef.current.elapsed)))
+
+  // Phase sound cues follow the scheduler when Sound Cues is on
+  useEffect(() => {
+    if (!getSoundSettings().enabled) return
+
+    audioCueEngine.startCues(scheduler)
+    return () => audioCueEngine.stopCues()
+  }, [scheduler])
+
+  // Haptic rhythm follows the same scheduler when Haptic Feedback is on
+  useEffect(() => {
+    if (!getHapticSettings().enabled) return
+
+    hapticsEngine.follow(scheduler)
+    return () => hapticsEngine.stop()
+  }, [scheduler])
+
+  // Spoken guidance, opening with the exercise name when intro/outro is on
+  useEffect(() => {
+    const settings = getVoiceSettings()
+    if (!settings.enabled) return
+
+    if (settings.introOutro && !resumeState) {
+      const opening = stage ? `${patternName}. ${stage.name}.` : `${patternName || 'Custom pattern'}.`
+      voiceGuide.announce(`${opening} ${scheduler.getState().label}.`, settings)
+    }
+    voiceGuide.follow(scheduler, settings)
+    return () => voiceGuide.stopFollowing()
+  }, [scheduler])
+
+  // Keep the display from locking while the session runs; released on pause and exit
+  useWakeLock(isActive && !isEnding)
+
+  // Eyes-closed mode fades everything to black once the intro is over
+  const isDimmed = eyesClosed && isActive && !showInstructions && !isAwake
+
+  const wakeDisplay = () => {
+    setIsAwake(true)
+    clearTimeout(wakeTimeoutRef.current)
+    wakeTimeoutRef.current = window.setTimeout(() => setIsAwake(false), 5000)
+  }
+
+  useEffect(() => () => clearTimeout(wakeTimeoutRef.current), [])
+
+  // Apply the background policy while hidden, and reconcile with the clock on return
+  useEffect(() => {
+    const policy = getBackgroundPolicy()
+    let pauseTimer: number | undefined
+
+    const pauseAt = (at: number) => {
+      if (hasEndedRef.current || !scheduler.isRunning) return
+      scheduler.pause(at)
+      pauseStartedRef.current = Date.now() - (performance.now() - at)
+      setIsActive(false)
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        const hiddenAt = performance.now()
+        hiddenAtRef.current = hiddenAt
+        recorder.trackPhase(scheduler.getState())
+        recorder.hidden(scheduler.getElapsed())
+
+        if (policy.mode === 'pause') {
+          pauseAt(hiddenAt)
+        } else if (policy.mode === 'pause-after') {
+          // Throttled timers may fire late, so pause at the intended moment rather than now
+          pauseTimer = window.setTimeout(() => pauseAt(hiddenAt + policy.seconds * 1000), policy.seconds * 1000)
+        }
+        return
+      }
+
+      const hiddenAt = hiddenAtRef.current
+      if (hiddenAt === null) return
+
+      hiddenAtRef.current = null
+      hiddenTotalRef.current += (performance.now() - hiddenAt) / 1000
+      clearTimeout(pauseTimer)
 
-  const totalCycleTime = pattern.inhale + pattern.hold + pattern.exhale + pattern.pause
+      if (policy.mode === 'pause-after' && performance.now() - hiddenAt > policy.seconds * 1000) {
+        pauseAt(hiddenAt + policy.seconds * 1000)
+      }
+      recorder.trackPhase(scheduler.getState())
+      recorder.visible(scheduler.getElapsed(), (performance.now() - hiddenAt) / 1000)
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      clearTimeout(pauseTimer)
+    }
+  }, [scheduler])
+
+  // Log phase boundaries as the scheduler crosses them; progression steps and
+  // pattern swaps start a fresh cycle in the log too
+  const loggedPatternRef = useRef(effectivePattern)
+  useEffect(() => {
+    if (hasEndedRef.current) return
+
+    if (loggedPatternRef.current !== effectivePattern) {
+      loggedPatternRef.current = effectivePattern
+      recorder.setPattern(breath.elapsed - breath.cycleProgress * getCycleDuration(effectivePattern), effectivePattern)
+    }
+    recorder.trackPhase(breath)
+    if (followAlong) adherence.trackPhase(breath)
+  }, [breath])
 
   // Hide instructions after 3 seconds
   useEffect(() => {
@@ -56,83 +261,72 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
     return () => clearTimeout(timer)
   }, [])
 
-  // Session duration tracker
+  const closePause = () => {
+    if (pauseStartedRef.current === null) return
+
+    pausesRef.current.push({
+      at: pauseStartedRef.current,
+      duration: (Date.now() - pauseStartedRef.current) / 1000
+    })
+    pauseStartedRef.current = null
+  }
+
+  // Track when and for how long the session was paused
   useEffect(() => {
-    durationIntervalRef.current = setInterval(() => {
-      setSessionDuration(Math.floor((Date.now() - startTimeRef.current) / 1000))
-    }, 1000)
+    if (!isActive) {
+      if (pauseStartedRef.current === null) pauseStartedRef.current = Date.now()
+      recorder.pause(scheduler.getElapsed())
+      return
+    }
 
-    return () => {
-      if (durationIntervalRef.current) {
-        clearInterval(durationIntervalRef.current)
-      }
+    if (pauseStartedRef.current !== null) {
+      recorder.resume(scheduler.getElapsed(), (Date.now() - pauseStartedRef.current) / 1000)
     }
-  }, [])
+    closePause()
+  }, [isActive])
+
+  // Progress is read straight from the scheduler so it's never a render behind
+  const saveProgress = () => {
+    const state = scheduler.getState()
+    // Program sessions aren't resumable; a saved session holds a single pattern
+    if (state.cycle === 0 || program) return
+
+    const activeTime = Math.floor(state.elapsed)
+    saveSession(
+      pattern,
+      patternName,
+      {
+        cyclesCompleted: state.cycle,
+        totalCycles,
+        timeElapsed: activeTime,
+        currentPhase: state.phase,
+        phaseIndex: state.phaseIndex,
+        phaseTimeRemaining: state.phaseRemaining
+      },
+      activeTime
+    )
+  }
 
   // Auto-save session progress every 5 seconds when active
   useEffect(() => {
-    if (isActive && cycles > 0) {
-      autoSaveIntervalRef.current = setInterval(() => {
-        saveSession(
-          pattern,
-          patternName,
-          {
-            cyclesCompleted: cycles,
-            totalCycles: totalCycles,
-            timeElapsed: sessionDuration,
-            currentPhase,
-            phaseTimeRemaining: timeRemaining
-          },
-          sessionDuration
-        )
-      }, 5000)
-    } else {
-      if (autoSaveIntervalRef.current) {
-        clearInterval(autoSaveIntervalRef.current)
-      }
-    }
+    if (!isActive) return
 
+    autoSaveIntervalRef.current = setInterval(saveProgress, 5000)
     return () => {
       if (autoSaveIntervalRef.current) {
         clearInterval(autoSaveIntervalRef.current)
       }
     }
-  }, [isActive, cycles, sessionDuration, currentPhase, timeRemaining, pattern, patternName, saveSession, totalCycles])
+  }, [isActive, pattern, patternName, totalCycles])
 
   // Save session on page unload/visibility change
   useEffect(() => {
     const handleBeforeUnload = () => {
-      if (isActive && cycles > 0) {
-        saveSession(
-          pattern,
-          patternName,
-          {
-            cyclesCompleted: cycles,
-            totalCycles: totalCycles,
-            timeElapsed: sessionDuration,
-            currentPhase,
-            phaseTimeRemaining: timeRemaining
-          },
-          sessionDuration
-        )
-      }
+      if (isActive) saveProgress()
     }
 
     const handleVisibilityChange = () => {
-      if (document.hidden && isActive && cycles > 0) {
-        saveSession(
-          pattern,
-          patternName,
-          {
-            cyclesCompleted: cycles,
-            totalCycles: totalCycles,
-            timeElapsed: sessionDuration,
-            currentPhase,
-            phaseTimeRemaining: timeRemaining
-          },
-          sessionDuration
-        )
-      }
+      if (document.hidden && isActive) saveProgress()
     }
 
     window.addEventListener('beforeunload', handleBeforeUnload)
@@ -142,73 +336,76 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
       window.removeEventListener('beforeunload', handleBeforeUnload)
       document.removeEventListener('visibilitychange', handleVisibilityChange)
     }
-  }, [isActive, cycles, sessionDuration, currentPhase, timeRemaining, pattern, patternName, saveSession, totalCycles])
+  }, [isActive, pattern, patternName, totalCycles])
 
-  // Breathing cycle logic
+  const toggleSession = () => {
+    setIsActive(!isActive)
+  }
+
+  // Follow-along: hold while breathing in, let go to breathe out
+  const pressDown = () => {
+    setIsPressed(true)
+    if (isActive && !hasEndedRef.current) adherence.input('press', scheduler.getElapsed())
+  }
+
+  const pressUp = () => {
+    setIsPressed(false)
+    if (isActive && !hasEndedRef.current) adherence.input('release', scheduler.getElapsed())
+  }
+
+  // The spacebar works like holding the orb
   useEffect(() => {
-    if (!isActive) return
+    if (!followAlong) return
 
-    const runPhase = (phase: typeof currentPhase, duration: number) => {
-      if (duration === 0) return Promise.resolve()
-      
-      return new Promise<void>((resolve) => {
-        setCurrentPhase(phase)
-        setTimeRemaining(duration)
-        
-        // Count down timer
-        let remaining = duration
-        const countdown = setInterval(() => {
-          remaining -= 0.1
-          setTimeRemaining(Math.max(0, remaining))
-          
-          if (remaining <= 0) {
-            clearInterval(countdown)
-            resolve()
-          }
-        }, 100)
-        
-        phaseTimeoutRef.current = setTimeout(() => {
-          clearInterval(countdown)
-          resolve()
-        }, duration * 1000)
-      })
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return
+      e.preventDefault()
+      if (!e.repeat) pressDown()
     }
-
-    const runCycle = async () => {
-      await runPhase('inhale', pattern.inhale)
-      if (!isActive) return
-      
-      await runPhase('hold', pattern.hold)
-      if (!isActive) return
-      
-      await runPhase('exhale', pattern.exhale)
-      if (!isActive) return
-      
-      await runPhase('pause', pattern.pause)
-      if (!isActive) return
-      
-      setCycles(prev => prev + 1)
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return
+      e.preventDefault()
+      pressUp()
     }
 
-    runCycle()
-
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
     return () => {
-      if (phaseTimeoutRef.current) {
-        clearTimeout(phaseTimeoutRef.current)
-      }
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
     }
-  }, [pattern, isActive, cycles])
+  }, [followAlong, isActive])
 
-  const toggleSession = () => {
-    setIsActive(!isActive)
-    if (!isActive) {
-      // Reset start time when resuming
-      startTimeRef.current = Date.now() - sessionDuration * 1000
+  const endSession = (completed: boolean) => {
+    if (hasEndedRef.current) return
+    hasEndedRef.current = true
+    setIsEnding(true)
+
+    closePause()
+    const activeTime = Math.floor(scheduler.getElapsed())
+    recorder.trackPhase(scheduler.getState())
+    recorder.exit(scheduler.getElapsed(), completed ? 'completed' : 'user')
+    const pausedTime = Math.round(pausesRef.current.reduce((total, pause) => total + pause.duration, 0))
+    const hiddenTime = hiddenTotalRef.current +
+      (hiddenAtRef.current !== null ? (performance.now() - hiddenAtRef.current) / 1000 : 0)
+
+    if (stage) {
+      stageSummariesRef.current.push({
+        name: stage.name,
+        exerciseName: stage.exerciseName,
+        cycles: cycles - stageStartRef.current.cycle,
+        activeTime: Math.round(scheduler.getElapsed() - stageStartRef.current.elapsed),
+        completed
+      })
     }
-  }
 
-  const handleExit = () => {
-    const finalDuration = Math.floor((Date.now() - startTimeRef.current) / 1000)
+    voiceGuide.stopFollowing()
+    const voiceSettings = getVoiceSettings()
+    if (completed && voiceSettings.enabled && voiceSettings.introOutro) {
+      voiceGuide.announce(`Session complete. Well done on your ${patternName || 'practice'}.`, voiceSettings)
+    } else {
+      voiceGuide.cancel()
+    }
     
     // Clear auto-save since session is completing normally
     clearSavedSession()
@@ -219,13 +416,84 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
     }
     
     onExit({
-      duration: finalDuration,
+      duration: activeTime + pausedTime,
+      activeTime,
+      pausedTime,
+      pauses: pausesRef.current.map(pause => ({ ...pause, duration: Math.round(pause.duration) })),
       cycles,
       pattern,
-      patternName
+      patternName,
+      completed,
+      hiddenTime: Math.round(hiddenTime),
+      log: recorder.toLog(),
+      stages: program ? stageSummariesRef.current : undefined,
+      adherence: followAlong ? adherence.getResult(scheduler.getElapsed()) ?? undefined : undefined
     })
   }
 
+  // Move a program on past every stage whose cycles are done, announcing where it lands.
+  // After a long hidden stretch that can be several stages at once; each one ends where
+  // its own cycles ran out, counted along the pattern that was playing meanwhile.
+  const advanceStages = () => {
+    if (!program) return
+
+    const runStart = stageStartRef.current
+    let index = stageIndex
+    let start = runStart
+    while (index < program.stages.length - 1) {
+      const current = program.stages[index]
+      const stageTotal = getStageCycles(current)
+      if (cycles - start.cycle < stageTotal) break
+
+      const endCycle = start.cycle + stageTotal
+      const end = {
+        cycle: endCycle,
+        elapsed: runStart.elapsed + getSessionDuration(activePattern, endCycle - runStart.cycle)
+      }
+      stageSummariesRef.current.push({
+        name: current.name,
+        exerciseName: current.exerciseName,
+        cycles: stageTotal,
+        activeTime: Math.round(end.elapsed - start.elapsed),
+        completed: true
+      })
+      start = end
+      index += 1
+    }
+    if (index === stageIndex) return
+    stageStartRef.current = start
+
+    const next = program.stages[index]
+    setStageIndex(index)
+    setShowStageBanner(true)
+    clearTimeout(stageBannerTimeoutRef.current)
+    stageBannerTimeoutRef.current = window.setTimeout(() => setShowStageBanner(false), 4000)
+
+    audioCueEngine.playChime()
+    const voiceSettings = getVoiceSettings()
+    if (voiceSettings.enabled) {
+      voiceGuide.announce(`${next.name}. ${next.exerciseName ?? ''}`.trim(), voiceSettings)
+    }
+  }
+
+  useEffect(() => () => clearTimeout(stageBannerTimeoutRef.current), [])
+
+  const handleExit = () => endSession(false)
+
+  // Finish automatically once the last full cycle ends
+  useEffect(() => {
+    if (stageCycles < totalCycles || hasEndedRef.current) return
+
+    if (program && stageIndex < program.stages.length - 1) {
+      advanceStages()
+    } else {
+      audioCueEngine.stopCues()
+      hapticsEngine.stop()
+      audioCueEngine.playChime()
+      endSession(true)
+    }
+  }, [stageCycles, totalCycles])
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -238,7 +506,7 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
       <motion.div
         className="absolute inset-0 bg-gradient-radial"
         animate={{
-          background: currentPhase === 'inhale' ? 
+          background: isInhalePhase(currentPhase) ? 
             'radial-gradient(circle at center, rgba(46, 58, 240, 0.1) 0%, rgba(0, 0, 0, 0) 60%)' :
             currentPhase === 'exhale' ?
             'radial-gradient(circle at center, rgba(230, 199, 124, 0.08) 0%, rgba(0, 0, 0, 0) 60%)' :
@@ -261,8 +529,12 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
               background: `rgba(255, 255, 255, ${isActive ? 0.05 : 0.02})`
             }}
           >
-            <div className="text-white/80 font-medium tabular-nums">{formatTime(sessionDuration)}</div>
-            <div className="text-xs text-white/50">{cycles} cycles</div>
+            <div className="text-white/80 font-medium tabular-nums">{formatTime(Math.floor(breath.elapsed))}</div>
+            <div className="text-xs text-white/50 tabular-nums">
+              {activeTarget.type === 'minutes'
+                ? `${formatTime(remainingSeconds)} left`
+                : `${remainingCycles} ${remainingCycles === 1 ? 'cycle' : 'cycles'} left`}
+            </div>
           </motion.div>
           
           <motion.div 
@@ -272,7 +544,15 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
             }}
           >
             <div className="text-white/80 font-medium">{patternName || 'Custom'}</div>
-            <div className="text-xs text-white/50">{totalCycleTime}s cycle</div>
+            {stage && program && (
+              <div className="text-xs text-white/50">
+                Stage {stageIndex + 1}/{program.stages.length} · {stage.name}
+              </div>
+            )}
+            {activePattern.progression?.length ? (
+              <div className="text-xs text-white/50 tabular-nums">{formatPattern(effectivePattern)}</div>
+            ) : null}
+            <div className="text-xs text-white/50">{stageCycles} / {totalCycles} cycles</div>
           </motion.div>
           
           <Button
@@ -299,9 +579,30 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
               transition={{ duration: 0.6 }}
             >
               <h2 className="text-2xl mb-2 tracking-wide">
-                {phaseInstructions[currentPhase]}
+                {phaseInstruction}
               </h2>
-              <p className="text-white/60">Tap anywhere to pause</p>
+              <p className="text-white/60">
+                {followAlong ? 'Hold the circle or spacebar as you breathe in' : 'Tap anywhere to pause'}
+              </p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Stage transition announcement */}
+        <AnimatePresence>
+          {showStageBanner && stage && program && (
+            <motion.div
+              className="absolute top-1/3 text-center glass-card px-6 py-3 rounded-2xl"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              transition={{ duration: 0.6 }}
+            >
+              <p className="text-xs text-white/50 uppercase tracking-wide mb-1">
+                Stage {stageIndex + 1} of {program.stages.length}
+              </p>
+              <h2 className="text-2xl tracking-wide">{stage.name}</h2>
+              {stage.exerciseName && <p className="text-white/60 text-sm mt-1">{stage.exerciseName}</p>}
             </motion.div>
           )}
         </AnimatePresence>
@@ -312,7 +613,12 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
           initial={{ opacity: 0, scale: 0.8 }}
           animate={{ opacity: 1, scale: 1 }}
           transition={{ delay: 0.3, duration: 1 }}
-          onClick={toggleSession}
+          onClick={followAlong ? undefined : toggleSession}
+          onPointerDown={followAlong ? pressDown : undefined}
+          onPointerUp={followAlong ? pressUp : undefined}
+          onPointerLeave={followAlong && isPressed ? pressUp : undefined}
+          onPointerCancel={followAlong ? pressUp : undefined}
+          style={followAlong ? { touchAction: 'none' } : undefined}
         >
           <BreathingOrb 
             size="xl"
@@ -326,10 +632,20 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
             <motion.div
               className="absolute inset-0 rounded-full border-2 border-white/20"
               style={{
-                background: `conic-gradient(from 0deg, rgba(255,255,255,0.2) 0deg, rgba(255,255,255,0.2) ${((pattern[currentPhase] - timeRemaining) / pattern[currentPhase]) * 360}deg, transparent ${((pattern[currentPhase] - timeRemaining) / pattern[currentPhase]) * 360}deg)`
+                background: `conic-gradient(from 0deg, rgba(255,255,255,0.2) 0deg, rgba(255,255,255,0.2) ${breath.phaseProgress * 360}deg, transparent ${breath.phaseProgress * 360}deg)`
               }}
             />
           )}
+
+          {/* Shows the orb is being held */}
+          {followAlong && (
+            <motion.div
+              className="absolute rounded-full border-2 pointer-events-none"
+              style={{ inset: -8, borderColor: 'rgba(96, 165, 250, 0.6)' }}
+              animate={{ opacity: isPressed ? 1 : 0 }}
+              transition={{ duration: 0.15 }}
+            />
+          )}
         </motion.div>
 
         {/* Current phase indicator */}
@@ -342,7 +658,7 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
           transition={{ duration: 0.3 }}
         >
           <h3 className="text-xl tracking-wide capitalize mb-2">
-            {phaseInstructions[currentPhase]}
+            {phaseInstruction}
           </h3>
           
           {isActive && timeRemaining > 0 && (
@@ -360,6 +676,19 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
           )}
         </motion.div>
 
+        {/* The orb is busy following along, so pausing needs its own button */}
+        {followAlong && isActive && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleSession}
+            className="mt-8 text-white/40 hover:text-white/70"
+          >
+            <Pause className="w-4 h-4 mr-2" />
+            Pause
+          </Button>
+        )}
+
         {/* Pause/Play button when paused */}
         <AnimatePresence>
           {!isActive && (
@@ -392,6 +721,22 @@ export function SessionScreen({ pattern, patternName, onExit }: SessionScreenPro
         <p>Swipe down to exit</p>
       </motion.div>
 
+      {/* Eyes-closed blackout; a tap wakes the display to show status, or when
+          following along the whole screen stands in for the orb */}
+      {eyesClosed && (
+        <motion.div
+          className="fixed inset-0 z-50"
+          style={{ background: '#000', pointerEvents: isDimmed ? 'auto' : 'none' }}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: isDimmed ? 1 : 0 }}
+          transition={{ duration: isDimmed ? 2.5 : 0.4 }}
+          onClick={followAlong ? undefined : wakeDisplay}
+          onPointerDown={followAlong ? pressDown : undefined}
+          onPointerUp={followAlong ? pressUp : undefined}
+          onPointerCancel={followAlong ? pressUp : undefined}
+        />
+      )}
+
       {/* Swipe down to exit gesture */}
       <div
         className="absolute inset-x-0 bottom-0 h-24 cursor-pointer"
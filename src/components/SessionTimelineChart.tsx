@@ -0,0 +1,188 @@
+import { useMemo } from 'react'
+import { ReferenceArea, ReferenceLine, ComposedChart, XAxis, YAxis } from 'recharts@2.15.2'
+import { ChartConfig, ChartContainer } from './ui/chart'
+import { PhaseType, PHASE_TYPES, phaseChartColors, phaseShortLabels } from './BreathPattern'
+import { SessionLog, decodeSessionEvents } from './SessionLog'
+
+interface SessionTimelineChartProps {
+  log: SessionLog
+}
+
+interface PhaseBand {
+  type: PhaseType
+  start: number
+  end: number
+  planned: number
+}
+
+interface PauseBand {
+  start: number
+  end: number
+}
+
+const chartConfig = {
+  'inhale': { label: phaseShortLabels['inhale'], color: phaseChartColors['inhale'] },
+  'top-up': { label: phaseShortLabels['top-up'], color: phaseChartColors['top-up'] },
+  'hold-full': { label: phaseShortLabels['hold-full'], color: phaseChartColors['hold-full'] },
+  'exhale': { label: phaseShortLabels['exhale'], color: phaseChartColors['exhale'] },
+  'hold-empty': { label: phaseShortLabels['hold-empty'], color: phaseChartColors['hold-empty'] },
+  'retention': { label: phaseShortLabels['retention'], color: phaseChartColors['retention'] },
+  'pause': { label: 'Paused', color: 'rgba(255, 255, 255, 0.08)' }
+} satisfies ChartConfig
+
+// Horizontal space per second of session, so long sessions scroll instead of squashing
+const PIXELS_PER_SECOND = 6
+
+const formatTick = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// Lay the log out on a wall-clock axis: pauses push later phases to the right
+function buildTimeline(log: SessionLog) {
+  const phases: PhaseBand[] = []
+  const pauses: PauseBand[] = []
+  let offset = 0
+  let patternIndex = 0
+  let pauseStart: number | null = null
+  let open: { type: PhaseType, start: number, planned: number } | null = null
+  let exit: { time: number, completed: boolean } | null = null
+
+  for (const event of decodeSessionEvents(log.events)) {
+    const at = event.time + offset
+
+    switch (event.type) {
+      case 'phase-start': {
+        const phase = log.patterns[patternIndex]?.phases[event.phaseIndex]
+        if (phase) open = { type: phase.type, start: at, planned: phase.duration }
+        break
+      }
+      case 'phase-end':
+        if (open) phases.push({ ...open, end: at })
+        open = null
+        break
+      case 'pause':
+        pauseStart = at
+        break
+      case 'resume':
+        if (pauseStart !== null) {
+          offset += event.paused
+          pauses.push({ start: pauseStart, end: pauseStart + event.paused })
+        }
+        pauseStart = null
+        break
+      case 'pattern':
+        patternIndex = event.patternIndex
+        break
+      case 'exit':
+        exit = { time: at, completed: event.reason === 'completed' }
+        break
+    }
+  }
+
+  const end = Math.max(exit?.time ?? 0, ...phases.map(phase => phase.end), ...pauses.map(pause => pause.end))
+  return { phases, pauses, exit, end }
+}
+
+export function SessionTimelineChart({ log }: SessionTimelineChartProps) {
+  const timeline = useMemo(() => buildTimeline(log), [log])
+  const usedTypes = PHASE_TYPES.filter(type => timeline.phases.some(phase => phase.type === type))
+
+  if (timeline.phases.length === 0) return null
+
+  return (
+    <div>
+      <div style={{ overflowX: 'auto' }}>
+        <ChartContainer
+          config={chartConfig}
+          style={{ aspectRatio: 'auto', height: 140, minWidth: Math.max(320, timeline.end * PIXELS_PER_SECOND) }}
+        >
+          <ComposedChart data={[{ time: 0 }, { time: timeline.end }]} margin={{ top: 8, right: 12, bottom: 0, left: 0 }}>
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={[0, timeline.end]}
+              tickFormatter={formatTick}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={24}
+            />
+            {/* Lower lane is the plan, upper lane what actually happened */}
+            <YAxis
+              type="number"
+              domain={[0, 2]}
+              ticks={[0.5, 1.5]}
+              tickFormatter={(value: number) => (value < 1 ? 'Plan' : 'Actual')}
+              tickLine={false}
+              axisLine={false}
+              width={48}
+            />
+
+            {timeline.phases.map((phase, index) => (
+              <ReferenceArea
+                key={`planned-${index}`}
+                x1={phase.start}
+                x2={phase.start + phase.planned}
+                y1={0.15}
+                y2={0.85}
+                fill={`var(--color-${phase.type})`}
+                fillOpacity={0.45}
+                ifOverflow="hidden"
+              />
+            ))}
+
+            {timeline.phases.map((phase, index) => (
+              <ReferenceArea
+                key={`actual-${index}`}
+                x1={phase.start}
+                x2={phase.end}
+                y1={1.15}
+                y2={1.85}
+                fill={`var(--color-${phase.type})`}
+                fillOpacity={0.9}
+              />
+            ))}
+
+            {timeline.pauses.map((pause, index) => (
+              <ReferenceArea
+                key={`pause-${index}`}
+                x1={pause.start}
+                x2={pause.end}
+                y1={0}
+                y2={2}
+                fill="var(--color-pause)"
+                stroke="rgba(255, 255, 255, 0.2)"
+                strokeDasharray="3 3"
+              />
+            ))}
+
+            {timeline.exit && (
+              <ReferenceLine
+                x={timeline.exit.time}
+                stroke={timeline.exit.completed ? '#34d399' : '#f87171'}
+                strokeDasharray="4 2"
+              />
+            )}
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center justify-center mt-4 text-xs text-white/60">
+        {usedTypes.map(type => (
+          <span key={type} className="inline-flex items-center space-x-1 mx-2">
+            <span className="w-2 h-2 rounded-full" style={{ background: chartConfig[type].color }} />
+            <span>{chartConfig[type].label}</span>
+          </span>
+        ))}
+        {timeline.pauses.length > 0 && (
+          <span className="inline-flex items-center space-x-1 mx-2">
+            <span className="w-2 h-2 rounded-full border border-white/20" />
+            <span>{chartConfig.pause.label}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
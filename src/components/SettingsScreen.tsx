@@ -1,12 +1,27 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { motion } from 'motion/react'
-import { ArrowLeft, Vibrate, Volume2, Moon, Sun, RotateCcw, Info, Shield } from 'lucide-react'
+import { ArrowLeft, Vibrate, Volume2, Mic, EyeOff, Hand, Moon, Sun, RotateCcw, Info, Shield, Play } from 'lucide-react'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Switch } from './ui/switch'
 import { Separator } from './ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { AoraLogo } from './AoraLogo'
 import { NotificationManager } from './NotificationManager'
+import { CustomSlider } from './CustomSlider'
+import { CueStyle, audioCueEngine, cueStyles } from './AudioCueEngine'
+import { HapticIntensity, hapticPresets, hapticsEngine } from './HapticsEngine'
+import { PhaseType, phaseLabels } from './BreathPattern'
+import { VoiceMode, voiceGuide, voiceModes } from './VoiceGuide'
+import { BackgroundPolicy, backgroundModes, getBackgroundPolicy } from './BackgroundPolicy'
+
+// One short box-breath cycle used by the haptics test mode
+const hapticTestSequence: { phase: PhaseType, duration: number }[] = [
+  { phase: 'inhale', duration: 3 },
+  { phase: 'hold-full', duration: 1.5 },
+  { phase: 'exhale', duration: 3 },
+  { phase: 'hold-empty', duration: 1.5 }
+]
 
 interface SettingsProps {
   onBack: () => void
@@ -16,6 +31,20 @@ interface SettingsProps {
 export function SettingsScreen({ onBack, onReplayIntro }: SettingsProps) {
   const [haptics, setHaptics] = useState(true)
   const [sound, setSound] = useState(false)
+  const [soundVolume, setSoundVolume] = useState(0.6)
+  const [soundStyle, setSoundStyle] = useState<CueStyle>('tones')
+  const [hapticIntensity, setHapticIntensity] = useState<HapticIntensity>('balanced')
+  const [hapticTestPhase, setHapticTestPhase] = useState<PhaseType | null>(null)
+  const hapticTestTimeouts = useRef<number[]>([])
+  const [voice, setVoice] = useState(false)
+  const [voiceName, setVoiceName] = useState<string | null>(null)
+  const [voiceRate, setVoiceRate] = useState(0.9)
+  const [voiceMode, setVoiceMode] = useState<VoiceMode>('phase')
+  const [voiceIntro, setVoiceIntro] = useState(true)
+  const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([])
+  const [eyesClosed, setEyesClosed] = useState(false)
+  const [followAlong, setFollowAlong] = useState(false)
+  const [backgroundPolicy, setBackgroundPolicy] = useState<BackgroundPolicy>(getBackgroundPolicy)
   const [darkTheme, setDarkTheme] = useState(true)
 
   // Load settings from localStorage on mount
@@ -23,9 +52,29 @@ export function SettingsScreen({ onBack, onReplayIntro }: SettingsProps) {
     const savedHaptics = localStorage.getItem('aora-haptics')
     const savedSound = localStorage.getItem('aora-sound')
     const savedTheme = localStorage.getItem('aora-theme')
+    const savedSoundVolume = localStorage.getItem('aora-sound-volume')
+    const savedSoundStyle = localStorage.getItem('aora-sound-style')
+    const savedHapticIntensity = localStorage.getItem('aora-haptics-intensity')
+    const savedVoice = localStorage.getItem('aora-voice')
+    const savedVoiceName = localStorage.getItem('aora-voice-name')
+    const savedVoiceRate = localStorage.getItem('aora-voice-rate')
+    const savedVoiceMode = localStorage.getItem('aora-voice-mode')
+    const savedVoiceIntro = localStorage.getItem('aora-voice-intro')
+    const savedEyesClosed = localStorage.getItem('aora-eyes-closed')
+    const savedFollowAlong = localStorage.getItem('aora-follow-along')
 
     if (savedHaptics !== null) setHaptics(JSON.parse(savedHaptics))
     if (savedSound !== null) setSound(JSON.parse(savedSound))
+    if (savedSoundVolume !== null) setSoundVolume(JSON.parse(savedSoundVolume))
+    if (savedSoundStyle !== null) setSoundStyle(JSON.parse(savedSoundStyle))
+    if (savedHapticIntensity !== null) setHapticIntensity(JSON.parse(savedHapticIntensity))
+    if (savedVoice !== null) setVoice(JSON.parse(savedVoice))
+    if (savedVoiceName !== null) setVoiceName(JSON.parse(savedVoiceName))
+    if (savedVoiceRate !== null) setVoiceRate(JSON.parse(savedVoiceRate))
+    if (savedVoiceMode !== null) setVoiceMode(JSON.parse(savedVoiceMode))
+    if (savedVoiceIntro !== null) setVoiceIntro(JSON.parse(savedVoiceIntro))
+    if (savedEyesClosed !== null) setEyesClosed(JSON.parse(savedEyesClosed))
+    if (savedFollowAlong !== null) setFollowAlong(JSON.parse(savedFollowAlong))
     if (savedTheme !== null) setDarkTheme(savedTheme === 'dark')
   }, [])
 
@@ -38,6 +87,65 @@ export function SettingsScreen({ onBack, onReplayIntro }: SettingsProps) {
     localStorage.setItem('aora-sound', JSON.stringify(sound))
   }, [sound])
 
+  useEffect(() => {
+    localStorage.setItem('aora-haptics-intensity', JSON.stringify(hapticIntensity))
+  }, [hapticIntensity])
+
+  useEffect(() => {
+    localStorage.setItem('aora-voice', JSON.stringify(voice))
+  }, [voice])
+
+  useEffect(() => {
+    localStorage.setItem('aora-voice-name', JSON.stringify(voiceName))
+  }, [voiceName])
+
+  useEffect(() => {
+    localStorage.setItem('aora-voice-rate', JSON.stringify(voiceRate))
+  }, [voiceRate])
+
+  useEffect(() => {
+    localStorage.setItem('aora-voice-mode', JSON.stringify(voiceMode))
+  }, [voiceMode])
+
+  useEffect(() => {
+    localStorage.setItem('aora-voice-intro', JSON.stringify(voiceIntro))
+  }, [voiceIntro])
+
+  useEffect(() => {
+    localStorage.setItem('aora-eyes-closed', JSON.stringify(eyesClosed))
+  }, [eyesClosed])
+
+  useEffect(() => {
+    localStorage.setItem('aora-follow-along', JSON.stringify(followAlong))
+  }, [followAlong])
+
+  useEffect(() => {
+    localStorage.setItem('aora-background-policy', JSON.stringify(backgroundPolicy))
+  }, [backgroundPolicy])
+
+  // Voices arrive asynchronously in most browsers
+  useEffect(() => {
+    const loadVoices = () => setAvailableVoices(voiceGuide.getVoices())
+    loadVoices()
+    return voiceGuide.onVoicesChanged(loadVoices)
+  }, [])
+
+  // Stop any running haptics test when leaving the screen
+  useEffect(() => {
+    return () => {
+      hapticTestTimeouts.current.forEach(clearTimeout)
+      hapticsEngine.stop()
+    }
+  }, [])
+
+  useEffect(() => {
+    localStorage.setItem('aora-sound-volume', JSON.stringify(soundVolume))
+  }, [soundVolume])
+
+  useEffect(() => {
+    localStorage.setItem('aora-sound-style', JSON.stringify(soundStyle))
+  }, [soundStyle])
+
   useEffect(() => {
     localStorage.setItem('aora-theme', darkTheme ? 'dark' : 'light')
     // Toggle dark class on document
@@ -48,6 +156,28 @@ export function SettingsScreen({ onBack, onReplayIntro }: SettingsProps) {
     }
   }, [darkTheme])
 
+  const runHapticTest = () => {
+    hapticTestTimeouts.current.forEach(clearTimeout)
+    hapticTestTimeouts.current = []
+
+    let offset = 0
+    hapticTestSequence.forEach(({ phase, duration }) => {
+      hapticTestTimeouts.current.push(window.setTimeout(() => {
+        setHapticTestPhase(phase)
+        hapticsEngine.playPhase(phase, duration, hapticIntensity)
+      }, offset * 1000))
+      offset += duration
+    })
+    hapticTestTimeouts.current.push(window.setTimeout(() => setHapticTestPhase(null), offset * 1000))
+  }
+
+  const previewVoice = () => {
+    voiceGuide.announce(
+      voiceMode === 'count' ? 'Breathe in. 2. 3. 4.' : 'Breathe in.',
+      { enabled: true, voiceURI: voiceName, rate: voiceRate, mode: voiceMode, introOutro: voiceIntro }
+    )
+  }
+
   const settingsOptions = [
     {
       icon: Vibrate,
@@ -63,6 +193,27 @@ export function SettingsScreen({ onBack, onReplayIntro }: SettingsProps) {
       value: sound,
       onChange: setSound
     },
+    {
+      icon: Mic,
+      title: 'Voice Guidance',
+      description: 'A spoken narrator for eyes-closed practice',
+      value: voice,
+      onChange: setVoice
+    },
+    {
+      icon: EyeOff,
+      title: 'Eyes-Closed Mode',
+      description: 'Fade sessions to black and guide with sound, voice or touch',
+      value: eyesClosed,
+      onChange: setEyesClosed
+    },
+    {
+      icon: Hand,
+      title: 'Follow-Along Mode',
+      description: 'Hold the orb as you breathe in and get a score for how closely you kept pace',
+      value: followAlong,
+      onChange: setFollowAlong
+    },
     {
       icon: darkTheme ? Moon : Sun,
       title: 'Dark Theme',
@@ -156,6 +307,235 @@ export function SettingsScreen({ onBack, onReplayIntro }: SettingsProps) {
           </Card>
         </motion.div>
 
+        {/* Haptic options */}
+        {haptics && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4 }}
+          >
+            <Card className="p-8 glass-card border-white/20 space-y-6">
+              <div>
+                <h3 className="font-medium text-lg text-white/90">Haptic Intensity</h3>
+                <p className="text-sm text-white/60 mt-1 leading-relaxed">
+                  {hapticsEngine.isSupported()
+                    ? 'Ramping pulses on inhale, a tap at each hold, a long fade on exhale'
+                    : 'Vibration is not supported on this device, so sessions will stay silent to the touch'}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                {(Object.keys(hapticPresets) as HapticIntensity[]).map((id) => (
+                  <div
+                    key={id}
+                    className={`p-4 rounded-xl border cursor-pointer transition-all duration-300 ${
+                      hapticIntensity === id ? 'border-blue-500/50 bg-blue-500/5' : 'border-white/10 bg-white/[0.02]'
+                    }`}
+                    onClick={() => setHapticIntensity(id)}
+                  >
+                    <h4 className="font-medium">{hapticPresets[id].name}</h4>
+                    <p className="text-sm text-white/60">{hapticPresets[id].description}</p>
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                variant="outline"
+                onClick={runHapticTest}
+                disabled={!hapticsEngine.isSupported() || hapticTestPhase !== null}
+                className="w-full h-12 rounded-xl border-white/20 hover:bg-white/5"
+              >
+                <Vibrate className="w-4 h-4 mr-2" />
+                {hapticTestPhase ? phaseLabels[hapticTestPhase] : 'Test Rhythm'}
+              </Button>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Sound cue options */}
+        {sound && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4 }}
+          >
+            <Card className="p-8 glass-card border-white/20 space-y-6">
+              <div>
+                <h3 className="font-medium text-lg text-white/90">Cue Style</h3>
+                <p className="text-sm text-white/60 mt-1 leading-relaxed">
+                  {audioCueEngine.isSupported()
+                    ? 'Tap a style to hear inhale, hold, exhale and pause'
+                    : 'Audio cues are not supported in this browser'}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                {cueStyles.map((style) => (
+                  <div
+                    key={style.id}
+                    className={`flex items-center justify-between p-4 rounded-xl border cursor-pointer transition-all duration-300 ${
+                      soundStyle === style.id ? 'border-blue-500/50 bg-blue-500/5' : 'border-white/10 bg-white/[0.02]'
+                    }`}
+                    onClick={() => setSoundStyle(style.id)}
+                  >
+                    <div>
+                      <h4 className="font-medium">{style.name}</h4>
+                      <p className="text-sm text-white/60">{style.description}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e: React.MouseEvent) => {
+                        e.stopPropagation()
+                        setSoundStyle(style.id)
+                        audioCueEngine.preview(style.id, soundVolume)
+                      }}
+                      className="p-2"
+                    >
+                      <Play className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <CustomSlider
+                label="Volume"
+                value={Math.round(soundVolume * 100)}
+                onChange={(value) => setSoundVolume(value / 100)}
+                min={0}
+                max={100}
+                step={5}
+                color="from-blue-400 to-blue-600"
+                unit="%"
+              />
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Voice guidance options */}
+        {voice && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4 }}
+          >
+            <Card className="p-8 glass-card border-white/20 space-y-6">
+              <div>
+                <h3 className="font-medium text-lg text-white/90">Voice</h3>
+                <p className="text-sm text-white/60 mt-1 leading-relaxed">
+                  {voiceGuide.isSupported()
+                    ? 'Spoken cues duck under sound cue tones'
+                    : 'Speech is not supported in this browser'}
+                </p>
+              </div>
+
+              <Select
+                value={voiceName ?? 'default'}
+                onValueChange={(value: string) => setVoiceName(value === 'default' ? null : value)}
+              >
+                <SelectTrigger className="bg-white/5 border-white/10 rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">System default</SelectItem>
+                  {availableVoices.map((option) => (
+                    <SelectItem key={option.voiceURI} value={option.voiceURI}>
+                      {option.name} ({option.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="space-y-3">
+                {voiceModes.map((mode) => (
+                  <div
+                    key={mode.id}
+                    className={`p-4 rounded-xl border cursor-pointer transition-all duration-300 ${
+                      voiceMode === mode.id ? 'border-blue-500/50 bg-blue-500/5' : 'border-white/10 bg-white/[0.02]'
+                    }`}
+                    onClick={() => setVoiceMode(mode.id)}
+                  >
+                    <h4 className="font-medium">{mode.name}</h4>
+                    <p className="text-sm text-white/60">{mode.description}</p>
+                  </div>
+                ))}
+              </div>
+
+              <CustomSlider
+                label="Speech Rate"
+                value={voiceRate}
+                onChange={setVoiceRate}
+                min={0.6}
+                max={1.4}
+                step={0.1}
+                color="from-violet-400 to-purple-600"
+                unit="x"
+              />
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium">Intro & Outro</h4>
+                  <p className="text-sm text-white/60">Name the exercise at the start and finish</p>
+                </div>
+                <Switch checked={voiceIntro} onCheckedChange={setVoiceIntro} />
+              </div>
+
+              <Button
+                variant="outline"
+                onClick={previewVoice}
+                disabled={!voiceGuide.isSupported()}
+                className="w-full h-12 rounded-xl border-white/20 hover:bg-white/5"
+              >
+                <Play className="w-4 h-4 mr-2" />
+                Preview Voice
+              </Button>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Background behaviour */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.6 }}
+        >
+          <Card className="p-8 glass-card border-white/20 space-y-6">
+            <div>
+              <h3 className="font-medium text-lg text-white/90">When the App Is Hidden</h3>
+              <p className="text-sm text-white/60 mt-1 leading-relaxed">
+                What a session does if you switch tabs or lock the screen
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              {backgroundModes.map((mode) => (
+                <div
+                  key={mode.id}
+                  className={`p-4 rounded-xl border cursor-pointer transition-all duration-300 ${
+                    backgroundPolicy.mode === mode.id ? 'border-blue-500/50 bg-blue-500/5' : 'border-white/10 bg-white/[0.02]'
+                  }`}
+                  onClick={() => setBackgroundPolicy(prev => ({ ...prev, mode: mode.id }))}
+                >
+                  <h4 className="font-medium">{mode.name}</h4>
+                  <p className="text-sm text-white/60">{mode.description}</p>
+                </div>
+              ))}
+            </div>
+
+            {backgroundPolicy.mode === 'pause-after' && (
+              <CustomSlider
+                label="Pause After"
+                value={backgroundPolicy.seconds}
+                onChange={(seconds) => setBackgroundPolicy(prev => ({ ...prev, seconds }))}
+                min={5}
+                max={120}
+                step={5}
+                color="from-blue-400 to-blue-600"
+              />
+            )}
+          </Card>
+        </motion.div>
+
         {/* Notification Settings */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
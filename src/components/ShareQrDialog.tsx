@@ -0,0 +1,89 @@
+import { useCallback, useMemo } from 'react'
+import { Download, Link2, QrCode } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { formatPattern, getCycleDuration } from './BreathPattern'
+import { SharedExercise, copyShareLink } from './PatternShare'
+import { downloadPatternCard, drawQrCode, getShareQrCode } from './PatternCard'
+
+interface ShareQrDialogProps {
+  exercise: SharedExercise | null
+  onOpenChange: (open: boolean) => void
+}
+
+// Drawn at twice its displayed size so it stays sharp on projectors and high-density screens
+const QR_CANVAS_SIZE = 512
+
+// QR code of an exercise's share link, for projecting to a room or scanning across a table
+export function ShareQrDialog({ exercise, onOpenChange }: ShareQrDialogProps) {
+  // Null when the link is too long to fit in any QR code
+  const modules = useMemo(() => exercise ? getShareQrCode(exercise) : null, [exercise])
+
+  const canvasRef = useCallback((canvas: HTMLCanvasElement | null) => {
+    if (canvas && modules) drawQrCode(canvas, modules, QR_CANVAS_SIZE)
+  }, [modules])
+
+  const handleCopyLink = () => {
+    if (!exercise) return
+    copyShareLink(exercise)
+      .then(() => toast.success(`Copied a share link for "${exercise.name}".`))
+      .catch(() => toast.error("Couldn't copy the share link."))
+  }
+
+  const handleDownloadCard = () => {
+    if (!exercise) return
+    downloadPatternCard(exercise)
+      .catch(() => toast.error("Couldn't create the pattern card."))
+  }
+
+  return (
+    <Dialog open={exercise !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-white/20 bg-background/95">
+        {exercise && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <QrCode className="w-5 h-5 text-primary" />
+                {exercise.name}
+              </DialogTitle>
+              <DialogDescription>
+                Scan with a phone camera to open this pattern in AORA.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex flex-col items-center gap-3">
+              {modules ? (
+                <canvas
+                  ref={canvasRef}
+                  className="bg-white rounded-xl"
+                  style={{ width: QR_CANVAS_SIZE / 2, height: QR_CANVAS_SIZE / 2 }}
+                  aria-label={`QR code for ${exercise.name}`}
+                />
+              ) : (
+                <p className="p-3 bg-muted/50 rounded-lg text-sm text-muted-foreground text-center">
+                  This pattern is too long for a QR code. Copy the link instead.
+                </p>
+              )}
+              <p className="text-sm font-mono text-center">{formatPattern(exercise.pattern)}</p>
+              <p className="text-xs text-muted-foreground">
+                {Math.round(getCycleDuration(exercise.pattern) * 10) / 10}s cycle
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={handleCopyLink}>
+                <Link2 className="w-4 h-4 mr-2" />
+                Copy Link
+              </Button>
+              <Button onClick={handleDownloadCard} className="bg-primary hover:bg-primary/90">
+                <Download className="w-4 h-4 mr-2" />
+                Download Pattern Card
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,104 @@
+import { motion } from 'motion/react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Link2, Play, Save, X } from 'lucide-react'
+import { describeProgression, formatPattern, getBreathsPerMinute, getCycleDuration } from './BreathPattern'
+import { SharedExercise } from './PatternShare'
+import { exerciseIcons } from './ExerciseDetailsEditor'
+
+interface SharedExercisePreviewProps {
+  exercise: SharedExercise
+  onSave: () => void
+  onStart: () => void
+  onDismiss: () => void
+}
+
+// Shown when the app is opened from a share link
+export function SharedExercisePreview({ exercise, onSave, onStart, onDismiss }: SharedExercisePreviewProps) {
+  const Icon = exercise.icon ? exerciseIcons[exercise.icon] : undefined
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="fixed inset-x-4 top-4 z-50 mx-auto max-w-md"
+    >
+      <Card className="glass-card border-primary/20 shadow-xl overflow-hidden">
+        <div className={`h-1 bg-gradient-to-r ${exercise.color}`} />
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Link2 className="w-5 h-5 text-primary" />
+                Shared Pattern
+              </CardTitle>
+              <CardDescription>
+                Someone sent you a breathing pattern
+              </CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDismiss}
+              className="text-muted-foreground hover:text-foreground -mt-1 -mr-2"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Name</span>
+              <span className="font-medium flex items-center gap-2">
+                {Icon && <Icon className="w-4 h-4 text-white/70" />}
+                {exercise.name}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Tag</span>
+              <span className="font-medium">{exercise.tag}</span>
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Cycle</span>
+              <span className="font-medium tabular-nums">
+                {Math.round(getCycleDuration(exercise.pattern) * 10) / 10}s · {Math.round(getBreathsPerMinute(exercise.pattern) * 10) / 10} breaths/min
+              </span>
+            </div>
+          </div>
+
+          {/* Pattern Preview */}
+          <div className="p-3 bg-muted/50 rounded-lg space-y-1">
+            <p className="text-sm font-mono">{formatPattern(exercise.pattern)}</p>
+            {exercise.pattern.progression?.map((rule, index) => (
+              <p key={index} className="text-xs text-muted-foreground">{describeProgression(rule, exercise.pattern)}</p>
+            ))}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex gap-2 pt-2">
+            <Button
+              onClick={onStart}
+              className="flex-1 bg-primary hover:bg-primary/90"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Start Now
+            </Button>
+            <Button
+              variant="outline"
+              onClick={onSave}
+              className="flex-1"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save to Library
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  )
+}
@@ -1,35 +1,67 @@
-import { useState, useEffect } from 'react'
-import { motion, AnimatePresence } from 'motion/react'
-import { ChevronRight, Plus, Lock, CheckCircle, X, MoreVertical, Edit, Copy, Trash2 } from 'lucide-react'
+import { useState, useEffect, useMemo, MouseEvent, ReactNode } from 'react'
+import { motion, AnimatePresence, Reorder, useDragControls } from 'motion/react'
+import { ChevronRight, Plus, Lock, CheckCircle, X, MoreVertical, Edit, Copy, Trash2, Layers, Timer, Zap, Activity, Search, Star, Pin, PinOff, GripVertical, Link2, QrCode } from 'lucide-react'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog'
 import { toast } from 'sonner@2.0.3'
+import { BreathPattern, LegacyBreathPattern, formatPattern, normalizePattern } from './BreathPattern'
+import { exerciseIcons, getUniqueName } from './ExerciseDetailsEditor'
+import {
+  LibrarySort,
+  LibraryView,
+  filterExercises,
+  getPracticeStats,
+  getTagsInUse,
+  loadLibraryView,
+  saveLibraryView,
+  sortExercises,
+  sortOptions
+} from './LibraryView'
+import { copyShareLink } from './PatternShare'
+import { ShareQrDialog } from './ShareQrDialog'
+import {
+  ExercisePreferences,
+  applyOrder,
+  loadExercisePreferences,
+  pruneExercisePreferences,
+  saveExercisePreferences,
+  toggleId
+} from './ExercisePreferences'
 
 interface Exercise {
   id: string
   name: string
   tag: string
   description: string
-  pattern: {
-    inhale: number
-    hold: number
-    exhale: number
-    pause: number
-  }
+  pattern: BreathPattern
   color: string
+  icon?: string
   isDefault?: boolean
 }
 
+// Stored exercises may still use the four-field pattern
+export const normalizeExercise = (exercise: Omit<Exercise, 'pattern'> & { pattern: BreathPattern | LegacyBreathPattern }): Exercise => ({
+  ...exercise,
+  pattern: normalizePattern(exercise.pattern)
+})
+
 // Default exercises (locked/undeletable)
-const defaultExercises: Exercise[] = [
+export const defaultExercises: Exercise[] = [
   {
     id: 'box',
     name: 'Box Breathing',
     tag: 'Focus',
     description: 'Equal rhythm for mental clarity',
-    pattern: { inhale: 4, hold: 4, exhale: 4, pause: 4 },
+    pattern: { phases: [
+      { type: 'inhale', duration: 4 },
+      { type: 'hold-full', duration: 4 },
+      { type: 'exhale', duration: 4 },
+      { type: 'hold-empty', duration: 4 }
+    ] },
     color: 'from-blue-500 to-blue-600',
     isDefault: true
   },
@@ -38,7 +70,11 @@ const defaultExercises: Exercise[] = [
     name: '4·7·8 Breathing',
     tag: 'Sleep',
     description: 'Natural sedative for relaxation',
-    pattern: { inhale: 4, hold: 7, exhale: 8, pause: 0 },
+    pattern: { phases: [
+      { type: 'inhale', duration: 4 },
+      { type: 'hold-full', duration: 7 },
+      { type: 'exhale', duration: 8 }
+    ] },
     color: 'from-violet-500 to-purple-600',
     isDefault: true
   },
@@ -47,7 +83,10 @@ const defaultExercises: Exercise[] = [
     name: 'Coherent Breathing',
     tag: 'Calm',
     description: 'Heart-brain synchronization',
-    pattern: { inhale: 5, hold: 0, exhale: 5, pause: 0 },
+    pattern: { phases: [
+      { type: 'inhale', duration: 5 },
+      { type: 'exhale', duration: 5 }
+    ] },
     color: 'from-emerald-500 to-teal-600',
     isDefault: true
   },
@@ -56,7 +95,10 @@ const defaultExercises: Exercise[] = [
     name: 'Resonant Breathing',
     tag: 'Calm',
     description: 'Optimal breathing frequency',
-    pattern: { inhale: 6, hold: 0, exhale: 6, pause: 0 },
+    pattern: { phases: [
+      { type: 'inhale', duration: 6 },
+      { type: 'exhale', duration: 6 }
+    ] },
     color: 'from-cyan-500 to-blue-600',
     isDefault: true
   },
@@ -65,7 +107,11 @@ const defaultExercises: Exercise[] = [
     name: 'Triangle Breathing',
     tag: 'Focus',
     description: 'Three-phase rhythm',
-    pattern: { inhale: 4, hold: 4, exhale: 4, pause: 0 },
+    pattern: { phases: [
+      { type: 'inhale', duration: 4 },
+      { type: 'hold-full', duration: 4 },
+      { type: 'exhale', duration: 4 }
+    ] },
     color: 'from-indigo-500 to-purple-600',
     isDefault: true
   },
@@ -74,32 +120,102 @@ const defaultExercises: Exercise[] = [
     name: 'Alternate Nostril',
     tag: 'Balance',
     description: 'Channel balancing technique',
-    pattern: { inhale: 4, hold: 4, exhale: 4, pause: 0 },
+    pattern: { phases: [
+      { type: 'inhale', duration: 4 },
+      { type: 'hold-full', duration: 4 },
+      { type: 'exhale', duration: 4 }
+    ] },
     color: 'from-pink-500 to-rose-600',
     isDefault: true
+  },
+  {
+    id: 'sigh',
+    name: 'Physiological Sigh',
+    tag: 'Calm',
+    description: 'Double inhale, long release',
+    pattern: { phases: [
+      { type: 'inhale', duration: 2 },
+      { type: 'top-up', duration: 1 },
+      { type: 'exhale', duration: 6 }
+    ] },
+    color: 'from-cyan-500 to-blue-600',
+    isDefault: true
   }
 ]
 
 interface ExerciseLibraryProps {
   onSelectExercise: (exercise: Exercise) => void
   onCreateCustom: () => void
+  onEditExercise: (exercise: Exercise) => void
+  onOpenPrograms: () => void
+  onOpenTables: () => void
+  onOpenPower: () => void
+  onAssessResonance: () => void
 }
 
-export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: ExerciseLibraryProps) {
+// A custom exercise that can be dragged into place by its handle, leaving the card itself tappable
+function ReorderableExercise({ exercise, children }: { exercise: Exercise, children: ReactNode }) {
+  const dragControls = useDragControls()
+
+  return (
+    <Reorder.Item as="div" value={exercise} dragListener={false} dragControls={dragControls} className="flex items-center gap-2">
+      <div
+        className="p-1 text-white/30 hover:text-white/70 transition-colors"
+        style={{ touchAction: 'none', cursor: 'grab' }}
+        onPointerDown={(e) => dragControls.start(e)}
+        aria-label={`Drag to reorder ${exercise.name}`}
+      >
+        <GripVertical className="w-4 h-4" />
+      </div>
+      <div className="flex-1 min-w-0">{children}</div>
+    </Reorder.Item>
+  )
+}
+
+export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom, onEditExercise, onOpenPrograms, onOpenTables, onOpenPower, onAssessResonance }: ExerciseLibraryProps) {
   const [userName] = useState(() => localStorage.getItem('aora-user-name') || 'Friend')
   const [activeExercise, setActiveExercise] = useState<Exercise | null>(null)
   const [customExercises, setCustomExercises] = useState<Exercise[]>([])
   const [showGuidedBanner, setShowGuidedBanner] = useState(true)
-  const [editingExercise, setEditingExercise] = useState<Exercise | null>(null)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
   const [exerciseToDelete, setExerciseToDelete] = useState<Exercise | null>(null)
+  const [qrExercise, setQrExercise] = useState<Exercise | null>(null)
+  const [view, setView] = useState<LibraryView>(loadLibraryView)
+  const [query, setQuery] = useState('')
+  const [practiceStats] = useState(getPracticeStats)
+  const [preferences, setPreferences] = useState<ExercisePreferences>(loadExercisePreferences)
+
+  const tagsInUse = useMemo(() => getTagsInUse([...defaultExercises, ...customExercises]), [customExercises])
+  // Tags remembered from an earlier visit may since have gone out of use
+  const activeTags = view.tags.filter(tag => tagsInUse.includes(tag))
+  const isFiltering = query.trim() !== '' || activeTags.length > 0
+
+  const orderedCustom = applyOrder(customExercises, preferences.order)
+  const pinnedExercises = preferences.pinned
+    .map(id => [...defaultExercises, ...customExercises].find(exercise => exercise.id === id))
+    .filter((exercise): exercise is Exercise => !!exercise)
+  const isPinned = (exercise: Exercise) => preferences.pinned.includes(exercise.id)
+
+  const visiblePinned = sortExercises(filterExercises(pinnedExercises, query, activeTags), view.sort, practiceStats)
+  const visibleDefaults = sortExercises(
+    filterExercises(defaultExercises.filter(exercise => !isPinned(exercise)), query, activeTags),
+    view.sort,
+    practiceStats
+  )
+  const visibleCustom = sortExercises(
+    filterExercises(orderedCustom.filter(exercise => !isPinned(exercise)), query, activeTags),
+    view.sort,
+    practiceStats
+  )
+  // Dragging only makes sense when the list is showing the manual order in full
+  const canReorder = view.sort === 'default' && !isFiltering && visibleCustom.length > 1
 
   useEffect(() => {
     // Load active exercise
     const stored = localStorage.getItem('aora-active-exercise')
     if (stored) {
       try {
-        setActiveExercise(JSON.parse(stored))
+        setActiveExercise(normalizeExercise(JSON.parse(stored)))
         setShowGuidedBanner(false)
       } catch (error) {
         console.error('Error parsing active exercise:', error)
@@ -111,7 +227,7 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
       const customStored = localStorage.getItem('aora-custom-exercises')
       if (customStored) {
         try {
-          setCustomExercises(JSON.parse(customStored))
+          setCustomExercises(JSON.parse(customStored).map(normalizeExercise))
         } catch (error) {
           console.error('Error parsing custom exercises:', error)
         }
@@ -140,10 +256,6 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
     }
   }, [])
 
-  const formatPattern = (pattern: Exercise['pattern']) => {
-    return `In ${pattern.inhale} • Hold ${pattern.hold} • Out ${pattern.exhale}${pattern.pause > 0 ? ` • Pause ${pattern.pause}` : ''}`
-  }
-
   const handleSelectExercise = (exercise: Exercise) => {
     setActiveExercise(exercise)
     setShowGuidedBanner(false)
@@ -152,6 +264,45 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
     onSelectExercise(exercise)
   }
 
+  const updatePreferences = (next: ExercisePreferences) => {
+    setPreferences(next)
+    saveExercisePreferences(next)
+  }
+
+  const handleToggleFavorite = (exercise: Exercise) => {
+    const favorites = toggleId(preferences.favorites, exercise.id)
+    updatePreferences({ ...preferences, favorites })
+    toast(favorites.includes(exercise.id) ? `Added "${exercise.name}" to favorites.` : `Removed "${exercise.name}" from favorites.`)
+  }
+
+  const handleTogglePin = (exercise: Exercise) => {
+    updatePreferences({ ...preferences, pinned: toggleId(preferences.pinned, exercise.id) })
+  }
+
+  // Pinned custom exercises keep their place in the manual order for when they're unpinned
+  const handleReorder = (reordered: Exercise[]) => {
+    const ids = reordered.map(exercise => exercise.id)
+    updatePreferences({
+      ...preferences,
+      order: [...ids, ...orderedCustom.map(exercise => exercise.id).filter(id => !ids.includes(id))]
+    })
+  }
+
+  const updateView = (changes: Partial<LibraryView>) => {
+    const next = { ...view, ...changes }
+    setView(next)
+    saveLibraryView(next)
+  }
+
+  const toggleTag = (tag: string) => {
+    updateView({ tags: activeTags.includes(tag) ? activeTags.filter(t => t !== tag) : [...activeTags, tag] })
+  }
+
+  const clearFilters = () => {
+    setQuery('')
+    updateView({ tags: [] })
+  }
+
   const dismissBanner = () => {
     setShowGuidedBanner(false)
   }
@@ -165,7 +316,7 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
     const duplicatedExercise: Exercise = {
       ...exercise,
       id: `custom-${Date.now()}`,
-      name: `${exercise.name} (Copy)`,
+      name: getUniqueName(`${exercise.name} (Copy)`, [...defaultExercises, ...customExercises]),
       isDefault: false
     }
     const updatedCustomExercises = [...customExercises, duplicatedExercise]
@@ -173,6 +324,12 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
     toast(`Duplicated "${exercise.name}".`)
   }
 
+  const handleCopyShareLink = (exercise: Exercise) => {
+    copyShareLink(exercise)
+      .then(() => toast.success(`Copied a share link for "${exercise.name}".`))
+      .catch(() => toast.error("Couldn't copy the share link."))
+  }
+
   const handleDeleteExercise = (exercise: Exercise) => {
     if (exercise.isDefault) {
       toast.error('Cannot delete default exercises.')
@@ -188,6 +345,10 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
     
     const updatedCustomExercises = customExercises.filter(ex => ex.id !== exerciseToDelete.id)
     saveCustomExercises(updatedCustomExercises)
+    updatePreferences(pruneExercisePreferences(
+      preferences,
+      [...defaultExercises, ...updatedCustomExercises].map(exercise => exercise.id)
+    ))
     
     // If this was the active exercise, clear it
     if (activeExercise?.id === exerciseToDelete.id) {
@@ -205,16 +366,18 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
       toast.error('Cannot edit default exercises.')
       return
     }
-    setEditingExercise(exercise)
-    // For now, we'll show a toast. In a full implementation, you'd open an edit modal
-    toast.info('Edit functionality will be implemented with a pattern editor.')
+    onEditExercise(exercise)
   }
 
-  const ExerciseCard = ({ exercise, index }: { exercise: Exercise, index: number }) => {
+  // A plain render function rather than a component, so cards aren't remounted on every render
+  const renderExerciseCard = (exercise: Exercise, index: number) => {
     const isActive = activeExercise?.id === exercise.id
+    const isFavorite = preferences.favorites.includes(exercise.id)
+    const Icon = exercise.icon ? exerciseIcons[exercise.icon] : undefined
 
     return (
       <motion.div
+        key={exercise.id}
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: index * 0.05, duration: 0.6 }}
@@ -247,10 +410,14 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
             <div className="flex-1">
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center space-x-3">
+                  {Icon && <Icon className="w-5 h-5 text-white/70" />}
                   <h3 className="font-medium text-lg">{exercise.name}</h3>
                   {exercise.isDefault && (
                     <Lock className="w-4 h-4 text-muted-foreground" />
                   )}
+                  {isFavorite && (
+                    <Star className="w-4 h-4 text-amber-400" fill="currentColor" />
+                  )}
                   {isActive && (
                     <div className="flex items-center space-x-2">
                       <CheckCircle className="w-4 h-4 text-green-400" />
@@ -284,6 +451,50 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
                       <Copy className="w-4 h-4" />
                       <span>Duplicate</span>
                     </DropdownMenuItem>
+
+                    <DropdownMenuItem 
+                      onClick={(e: MouseEvent) => {
+                        e.stopPropagation()
+                        handleToggleFavorite(exercise)
+                      }}
+                      className="flex items-center space-x-2 text-sm"
+                    >
+                      <Star className="w-4 h-4" />
+                      <span>{isFavorite ? 'Remove Favorite' : 'Add to Favorites'}</span>
+                    </DropdownMenuItem>
+
+                    <DropdownMenuItem 
+                      onClick={(e: MouseEvent) => {
+                        e.stopPropagation()
+                        handleTogglePin(exercise)
+                      }}
+                      className="flex items-center space-x-2 text-sm"
+                    >
+                      {isPinned(exercise) ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      <span>{isPinned(exercise) ? 'Unpin' : 'Pin to Top'}</span>
+                    </DropdownMenuItem>
+
+                    <DropdownMenuItem 
+                      onClick={(e: MouseEvent) => {
+                        e.stopPropagation()
+                        handleCopyShareLink(exercise)
+                      }}
+                      className="flex items-center space-x-2 text-sm"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      <span>Copy Share Link</span>
+                    </DropdownMenuItem>
+
+                    <DropdownMenuItem 
+                      onClick={(e: MouseEvent) => {
+                        e.stopPropagation()
+                        setQrExercise(exercise)
+                      }}
+                      className="flex items-center space-x-2 text-sm"
+                    >
+                      <QrCode className="w-4 h-4" />
+                      <span>Show QR Code</span>
+                    </DropdownMenuItem>
                     
                     {!exercise.isDefault && (
                       <>
@@ -390,27 +601,174 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
       )}
 
       <div className="px-6 space-y-8 pb-32">
-        {/* Default Exercises Section */}
-        <div>
-          <motion.h2 
-            className="text-lg font-medium mb-4 flex items-center space-x-2"
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.2, duration: 0.6 }}
+        {/* Guided modes */}
+        <motion.div
+          className="space-y-3"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1, duration: 0.6 }}
+        >
+          <Card
+            className="p-5 glass-card glass-card-hover cursor-pointer group"
+            onClick={onOpenPrograms}
           >
-            <Lock className="w-5 h-5 text-muted-foreground" />
-            <span>Default Exercises</span>
-          </motion.h2>
-          
-          <div className="space-y-3">
-            {defaultExercises.map((exercise, index) => (
-              <ExerciseCard key={exercise.id} exercise={exercise} index={index} />
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Layers className="w-5 h-5 text-purple-300" />
+                <div>
+                  <h3 className="font-medium">Programs</h3>
+                  <p className="text-sm text-muted-foreground">Warm-up, main set and cool-down in one session</p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-white/40 group-hover:text-white/70 transition-colors" />
+            </div>
+          </Card>
+
+          <Card
+            className="p-5 glass-card glass-card-hover cursor-pointer group"
+            onClick={onOpenTables}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Timer className="w-5 h-5 text-blue-300" />
+                <div>
+                  <h3 className="font-medium">Breath-Hold Tables</h3>
+                  <p className="text-sm text-muted-foreground">CO2 and O2 tables sized from your max hold</p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-white/40 group-hover:text-white/70 transition-colors" />
+            </div>
+          </Card>
+
+          <Card
+            className="p-5 glass-card glass-card-hover cursor-pointer group"
+            onClick={onOpenPower}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Zap className="w-5 h-5 text-amber-400" />
+                <div>
+                  <h3 className="font-medium">Power Breathing</h3>
+                  <p className="text-sm text-muted-foreground">Rounds of quick breaths and a held retention</p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-white/40 group-hover:text-white/70 transition-colors" />
+            </div>
+          </Card>
+
+          <Card
+            className="p-5 glass-card glass-card-hover cursor-pointer group"
+            onClick={onAssessResonance}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Activity className="w-5 h-5 text-blue-400" />
+                <div>
+                  <h3 className="font-medium">Find Your Resonant Rate</h3>
+                  <p className="text-sm text-muted-foreground">A guided test of paces from 6.5 to 4.5 breaths/min</p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-white/40 group-hover:text-white/70 transition-colors" />
+            </div>
+          </Card>
+        </motion.div>
+
+        {/* Search, tag filters and sorting */}
+        <motion.div
+          className="space-y-3"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.6 }}
+        >
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search
+                className="absolute top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground"
+                style={{ left: 12 }}
+              />
+              <Input
+                placeholder="Search exercises"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="bg-white/5 border-white/10 rounded-xl placeholder:text-white/30"
+                style={{ paddingLeft: 36 }}
+              />
+            </div>
+            <Select value={view.sort} onValueChange={(sort: string) => updateView({ sort: sort as LibrarySort })}>
+              <SelectTrigger className="bg-white/5 border-white/10 rounded-xl text-xs" style={{ width: 150 }}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-2" style={{ overflowX: 'auto' }}>
+            <Button
+              variant={activeTags.length === 0 ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => updateView({ tags: [] })}
+              className="rounded-full shrink-0"
+            >
+              All
+            </Button>
+            {tagsInUse.map((tag) => (
+              <Button
+                key={tag}
+                variant={activeTags.includes(tag) ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => toggleTag(tag)}
+                className="rounded-full shrink-0"
+              >
+                {tag}
+              </Button>
             ))}
           </div>
-        </div>
+        </motion.div>
+
+        {/* Pinned Section */}
+        {visiblePinned.length > 0 && (
+          <div>
+            <motion.h2 
+              className="text-lg font-medium mb-4 flex items-center space-x-2"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.2, duration: 0.6 }}
+            >
+              <Pin className="w-5 h-5 text-muted-foreground" />
+              <span>Pinned</span>
+            </motion.h2>
+            
+            <div className="space-y-3">
+              {visiblePinned.map((exercise, index) => renderExerciseCard(exercise, index))}
+            </div>
+          </div>
+        )}
+
+        {/* Default Exercises Section */}
+        {visibleDefaults.length > 0 && (
+          <div>
+            <motion.h2 
+              className="text-lg font-medium mb-4 flex items-center space-x-2"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.2, duration: 0.6 }}
+            >
+              <Lock className="w-5 h-5 text-muted-foreground" />
+              <span>Default Exercises</span>
+            </motion.h2>
+            
+            <div className="space-y-3">
+              {visibleDefaults.map((exercise, index) => renderExerciseCard(exercise, index + visiblePinned.length))}
+            </div>
+          </div>
+        )}
 
         {/* Custom Exercises Section */}
-        {customExercises.length > 0 && (
+        {visibleCustom.length > 0 && (
           <div>
             <motion.h2 
               className="text-lg font-medium mb-4"
@@ -421,11 +779,36 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
               My Exercises
             </motion.h2>
             
-            <div className="space-y-3">
-              {customExercises.map((exercise, index) => (
-                <ExerciseCard key={exercise.id} exercise={exercise} index={index + defaultExercises.length} />
-              ))}
-            </div>
+            {canReorder ? (
+              <Reorder.Group as="div" axis="y" values={visibleCustom} onReorder={handleReorder} className="space-y-3">
+                {visibleCustom.map((exercise, index) => (
+                  <ReorderableExercise key={exercise.id} exercise={exercise}>
+                    {renderExerciseCard(exercise, index + visiblePinned.length + visibleDefaults.length)}
+                  </ReorderableExercise>
+                ))}
+              </Reorder.Group>
+            ) : (
+              <div className="space-y-3">
+                {visibleCustom.map((exercise, index) =>
+                  renderExerciseCard(exercise, index + visiblePinned.length + visibleDefaults.length)
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Nothing matches the search or tags */}
+        {isFiltering && visiblePinned.length + visibleDefaults.length + visibleCustom.length === 0 && (
+          <div className="text-center space-y-4" style={{ paddingTop: 32, paddingBottom: 32 }}>
+            <p className="text-muted-foreground text-sm">No exercises match your search.</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={clearFilters}
+              className="rounded-xl border-white/20 hover:bg-white/5"
+            >
+              Clear Filters
+            </Button>
           </div>
         )}
       </div>
@@ -510,6 +893,12 @@ export function UpdatedExerciseLibrary({ onSelectExercise, onCreateCustom }: Exe
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* QR Code Dialog */}
+      <ShareQrDialog
+        exercise={qrExercise}
+        onOpenChange={(open) => !open && setQrExercise(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+// Spoken voice guidance for AORA sessions
+//
+// Uses speechSynthesis to announce phase names (and optionally count seconds)
+// so sessions can be practiced with eyes closed.
+
+import { BreathScheduler } from './BreathScheduler'
+import { audioCueEngine } from './AudioCueEngine'
+
+export type VoiceMode = 'phase' | 'count'
+
+export interface VoiceSettings {
+  enabled: boolean
+  voiceURI: string | null
+  rate: number
+  mode: VoiceMode
+  introOutro: boolean
+}
+
+export const voiceModes: { id: VoiceMode, name: string, description: string }[] = [
+  { id: 'phase', name: 'Phase changes', description: 'Only name each phase as it begins' },
+  { id: 'count', name: 'Count every second', description: 'Name the phase, then count along' }
+]
+
+const DEFAULT_SETTINGS: VoiceSettings = {
+  enabled: false,
+  voiceURI: null,
+  rate: 0.9,
+  mode: 'phase',
+  introOutro: true
+}
+
+// Speech volume while a sound cue is ringing, so tones and voice don't fight
+const DUCKED_VOLUME = 0.55
+const TICK_MS = 100
+
+// Higher priority speech interrupts lower; counts never cut off a phase name
+const PRIORITY = { count: 0, phase: 1, announcement: 2 }
+
+export function getVoiceSettings(): VoiceSettings {
+  const settings = { ...DEFAULT_SETTINGS }
+
+  try {
+    const enabled = localStorage.getItem('aora-voice')
+    const voiceURI = localStorage.getItem('aora-voice-name')
+    const rate = localStorage.getItem('aora-voice-rate')
+    const mode = localStorage.getItem('aora-voice-mode')
+    const introOutro = localStorage.getItem('aora-voice-intro')
+
+    if (enabled !== null) settings.enabled = JSON.parse(enabled)
+    if (voiceURI !== null) settings.voiceURI = JSON.parse(voiceURI)
+    if (rate !== null) settings.rate = JSON.parse(rate)
+    if (mode !== null) settings.mode = JSON.parse(mode)
+    if (introOutro !== null) settings.introOutro = JSON.parse(introOutro)
+  } catch (error) {
+    console.error('Error parsing voice settings:', error)
+  }
+
+  return settings
+}
+
+export class VoiceGuide {
+  private static instance: VoiceGuide
+  private tickId: number | null = null
+  private currentPriority = -1
+
+  static getInstance(): VoiceGuide {
+    if (!VoiceGuide.instance) {
+      VoiceGuide.instance = new VoiceGuide()
+    }
+    return VoiceGuide.instance
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window
+  }
+
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.isSupported() ? window.speechSynthesis.getVoices() : []
+  }
+
+  // Voices load asynchronously in most browsers
+  onVoicesChanged(callback: () => void): () => void {
+    if (!this.isSupported()) return () => {}
+
+    window.speechSynthesis.addEventListener('voiceschanged', callback)
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', callback)
+  }
+
+  // Announce phases (and counts) of a running scheduler
+  follow(scheduler: BreathScheduler, settings = getVoiceSettings()): void {
+    this.stopFollowing()
+    if (!this.isSupported()) return
+
+    let lastKey: string | null = null
+    let lastCount = 0
+    const tick = () => {
+      if (!scheduler.isRunning) {
+        if (this.currentPriority < PRIORITY.announcement) this.cancel()
+        return
+      }
+
+      const state = scheduler.getState()
+      const key = `${state.cycle}:${state.phaseIndex}`
+
+      if (key !== lastKey) {
+        lastKey = key
+        lastCount = Math.floor(state.phaseElapsed) + 1
+        this.speak(state.label, PRIORITY.phase, settings)
+        return
+      }
+
+      if (settings.mode === 'count') {
+        const count = Math.floor(state.phaseElapsed) + 1
+        if (count > lastCount && state.phaseRemaining > 0.4) {
+          lastCount = count
+          this.speak(String(count), PRIORITY.count, settings)
+        }
+      }
+    }
+
+    tick()
+    this.tickId = window.setInterval(tick, TICK_MS)
+  }
+
+  stopFollowing(): void {
+    if (this.tickId !== null) {
+      clearInterval(this.tickId)
+      this.tickId = null
+    }
+  }
+
+  announce(text: string, settings = getVoiceSettings()): void {
+    this.speak(text, PRIORITY.announcement, settings)
+  }
+
+  cancel(): void {
+    if (!this.isSupported()) return
+    window.speechSynthesis.cancel()
+    this.currentPriority = -1
+  }
+
+  private speak(text: string, priority: number, settings: VoiceSettings): void {
+    if (!this.isSupported()) return
+
+    const synth = window.speechSynthesis
+    if (synth.speaking && priority < this.currentPriority) return
+    if (synth.speaking || synth.pending) synth.cancel()
+
+    const utterance = new SpeechSynthesisUtterance(text)
+    const voice = this.getVoices().find(v => v.voiceURI === settings.voiceURI)
+    if (voice) {
+      utterance.voice = voice
+      utterance.lang = voice.lang
+    }
+    utterance.rate = settings.rate
+    utterance.volume = audioCueEngine.isSounding() ? DUCKED_VOLUME : 1
+    utterance.onend = () => {
+      if (this.currentPriority === priority) this.currentPriority = -1
+    }
+
+    this.currentPriority = priority
+    synth.speak(utterance)
+  }
+}
+
+export const voiceGuide = VoiceGuide.getInstance()
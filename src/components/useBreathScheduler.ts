@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react'
+import { BreathPattern } from './BreathPattern'
+import { BreathScheduler, BreathState, SchedulerPosition } from './BreathScheduler'
+
+// Re-render roughly ten times a second, or immediately on a phase change
+const isSameFrame = (a: BreathState, b: BreathState) =>
+  a.phaseIndex === b.phaseIndex &&
+  a.cycle === b.cycle &&
+  Math.floor(a.phaseElapsed * 10) === Math.floor(b.phaseElapsed * 10)
+
+// Drive React state from a BreathScheduler on every animation frame
+export function useBreathScheduler(pattern: BreathPattern, running: boolean, initialPosition?: SchedulerPosition) {
+  const schedulerRef = useRef<BreathScheduler>()
+  if (!schedulerRef.current) {
+    schedulerRef.current = new BreathScheduler(pattern)
+    if (initialPosition) {
+      schedulerRef.current.startFrom(initialPosition)
+    }
+  }
+  const scheduler = schedulerRef.current
+
+  const [state, setState] = useState<BreathState>(() => scheduler.getState())
+
+  useEffect(() => {
+    if (scheduler.getBasePattern() !== pattern) {
+      scheduler.setPattern(pattern)
+      setState(scheduler.getState())
+    }
+  }, [scheduler, pattern])
+
+  useEffect(() => {
+    if (!running) {
+      scheduler.pause()
+      return
+    }
+
+    scheduler.resume()
+
+    let frame = 0
+    const tick = () => {
+      const next = scheduler.getState()
+      setState(prev => (isSameFrame(prev, next) ? prev : next))
+      frame = requestAnimationFrame(tick)
+    }
+    tick()
+
+    return () => cancelAnimationFrame(frame)
+  }, [scheduler, running])
+
+  return { state, scheduler }
+}
@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+
+// Hold a Screen Wake Lock while `active`, so the device doesn't lock mid-session
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let released = false
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen')
+        if (released) {
+          lock.release().catch(() => {})
+          return
+        }
+        sentinel = lock
+      } catch (error) {
+        // Denied (e.g. battery saver) or the page isn't visible; cues still run
+        console.warn('Screen wake lock unavailable:', error)
+      }
+    }
+
+    // The browser drops the lock whenever the page is hidden
+    const handleVisibilityChange = () => {
+      if (!document.hidden && (!sentinel || sentinel.released)) {
+        request()
+      }
+    }
+
+    request()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      released = true
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      sentinel?.release().catch(() => {})
+    }
+  }, [active])
+}